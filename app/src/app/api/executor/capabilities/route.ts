@@ -0,0 +1,40 @@
+/**
+ * API route to fetch chain capabilities from the Executor API
+ * Proxies requests to avoid CORS issues
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getExecutorApiUrl, type NetworkType } from '@/lib/executorClient';
+
+export async function GET(request: NextRequest) {
+    try {
+        const network = (request.nextUrl.searchParams.get('network') ||
+            'Testnet') as NetworkType;
+        const executorUrl = getExecutorApiUrl(network);
+
+        if (!executorUrl) {
+            return NextResponse.json(
+                { error: `Unknown network: ${network}` },
+                { status: 400 }
+            );
+        }
+
+        const response = await fetch(`${executorUrl}/capabilities`);
+
+        if (!response.ok) {
+            return NextResponse.json(
+                { error: `Executor API error: ${response.statusText}` },
+                { status: response.status }
+            );
+        }
+
+        const data = await response.json();
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Executor capabilities API proxy error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch from Executor API' },
+            { status: 500 }
+        );
+    }
+}
@@ -4,18 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-// Executor API URLs (inline to avoid import path issues in Next.js API routes)
-const EXECUTOR_API_URLS = {
-    Mainnet: 'https://executor.labsapis.com/v0',
-    Testnet: 'https://executor-testnet.labsapis.com/v0',
-} as const;
-
-type NetworkType = keyof typeof EXECUTOR_API_URLS;
-
-function getExecutorApiUrl(network: NetworkType = 'Testnet'): string {
-    return EXECUTOR_API_URLS[network];
-}
+import { getExecutorApiUrl, type NetworkType } from '@/lib/executorClient';
 
 export async function POST(request: NextRequest) {
     try {
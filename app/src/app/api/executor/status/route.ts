@@ -4,13 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-const EXECUTOR_API_URLS = {
-    Mainnet: 'https://executor.labsapis.com/v0',
-    Testnet: 'https://executor-testnet.labsapis.com/v0',
-} as const;
-
-type NetworkType = keyof typeof EXECUTOR_API_URLS;
+import { getExecutorApiUrl, type NetworkType } from '@/lib/executorClient';
 
 export async function POST(request: NextRequest) {
     try {
@@ -24,7 +18,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const executorUrl = EXECUTOR_API_URLS[network as NetworkType];
+        const executorUrl = getExecutorApiUrl(network as NetworkType);
         
         const response = await fetch(`${executorUrl}/status/tx`, {
             method: 'POST',
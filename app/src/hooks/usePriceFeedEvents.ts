@@ -0,0 +1,90 @@
+/**
+ * Hooks to subscribe to price feed events
+ * Pushed over WebSocket when the chain has a WS RPC, otherwise polled by block
+ */
+
+import { useWatchContractEvent } from 'wagmi';
+import type { Hash, Hex } from 'viem';
+import {
+    getContractAddress,
+    PRICE_FEED_SENDER_ABI,
+    PRICE_FEED_RECEIVER_ABI,
+} from '@/lib/contracts';
+import { SOURCE_CHAIN } from '@/lib/chains';
+
+export interface PricesReceivedEvent {
+    count: bigint;
+    senderChain: number;
+    sender: Hex;
+    transactionHash: Hash;
+    blockNumber: bigint;
+}
+
+export interface PricesUpdatedEvent {
+    count: bigint;
+    targetChain: number;
+    sequence: bigint;
+    transactionHash: Hash;
+    blockNumber: bigint;
+}
+
+/**
+ * Call `onEvent` for every PricesReceived on a destination chain
+ */
+export function useOnPricesReceived(
+    chainId: number,
+    onEvent: (event: PricesReceivedEvent) => void,
+    enabled = true
+) {
+    useWatchContractEvent({
+        address: getContractAddress(chainId),
+        abi: PRICE_FEED_RECEIVER_ABI,
+        eventName: 'PricesReceived',
+        chainId: chainId as 11155111 | 84532 | 80002,
+        enabled: enabled && chainId !== SOURCE_CHAIN.id,
+        onLogs: (logs) => {
+            for (const log of logs) {
+                const { args } = log as unknown as {
+                    args: { count: bigint; senderChain: number; sender: Hex };
+                };
+                onEvent({
+                    count: args.count,
+                    senderChain: Number(args.senderChain),
+                    sender: args.sender,
+                    transactionHash: log.transactionHash as Hash,
+                    blockNumber: log.blockNumber as bigint,
+                });
+            }
+        },
+    });
+}
+
+/**
+ * Call `onEvent` for every PricesUpdated (one per target chain) on the source
+ */
+export function useOnPricesUpdated(
+    onEvent: (event: PricesUpdatedEvent) => void,
+    enabled = true
+) {
+    useWatchContractEvent({
+        address: getContractAddress(SOURCE_CHAIN.id),
+        abi: PRICE_FEED_SENDER_ABI,
+        eventName: 'PricesUpdated',
+        chainId: SOURCE_CHAIN.id as 11155111,
+        enabled,
+        onLogs: (logs) => {
+            for (const log of logs) {
+                const { args } = log as unknown as {
+                    args: { count: bigint; targetChain: number; sequence: bigint };
+                };
+                onEvent({
+                    count: args.count,
+                    targetChain: Number(args.targetChain),
+                    sequence: args.sequence,
+                    transactionHash: log.transactionHash as Hash,
+                    blockNumber: log.blockNumber as bigint,
+                });
+            }
+        },
+    });
+}
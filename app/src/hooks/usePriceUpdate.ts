@@ -19,7 +19,16 @@ import {
     CORE_BRIDGE_ABI,
 } from '@/lib/contracts';
 import { SOURCE_CHAIN, DESTINATION_CHAINS, getWormholeChainId, getChainName, getEvmChainId } from '@/lib/chains';
-import { getMultiChainQuotes, calculateTotalCost, pollForExecutorCompletion } from '@/lib/executor';
+import {
+    getMultiChainQuotes,
+    calculateTotalCost,
+    trackExecutorRelays,
+    isFinalRelayStatus,
+    RelayValidationError,
+    type RelayStatus,
+} from '@/lib/executor';
+import { proxyExecutorClient, type ExecutorClient } from '@/lib/executorClient';
+import { estimateDestinationGasLimits } from '@/lib/gasEstimate';
 import { showProgressToast } from '@/lib/progressToast';
 import type { TransactionStatus, PriceEntry } from '@/types';
 
@@ -29,7 +38,16 @@ const CORE_BRIDGE_ADDRESS = '0x4a8bc80Ed5a4067f1CCf107057b8270E0cC11A78';
 // Price decimals used in the contracts
 const PRICE_DECIMALS = 6;
 
-export function usePriceUpdate() {
+// Collapse a relay status into the per-destination UI state
+function toDestinationStatus(relay: RelayStatus | undefined): 'pending' | 'complete' | 'failed' {
+    if (!relay || !isFinalRelayStatus(relay)) return 'pending';
+    return relay.status === 'executed' ? 'complete' : 'failed';
+}
+
+/**
+ * @param executorClient - Executor access (default: the local API proxy routes)
+ */
+export function usePriceUpdate(executorClient: ExecutorClient = proxyExecutorClient) {
     const { chainId } = useAccount();
     const { switchChainAsync } = useSwitchChain();
     const publicClient = usePublicClient({ chainId: SOURCE_CHAIN.id });
@@ -89,13 +107,20 @@ export function usePriceUpdate() {
                     description: 'Fetching quotes from Executor API...',
                 });
 
-                // Get quotes for all destination chains
+                // Size the gas limit for this payload, then quote every destination chain
                 const wormholeDestChains = DESTINATION_CHAINS.map((c) =>
                     getWormholeChainId(c.id)
                 );
+                const gasLimits = await estimateDestinationGasLimits(
+                    tokenNames,
+                    prices,
+                    DESTINATION_CHAINS.map((c) => c.id)
+                );
                 const quotes = await getMultiChainQuotes(
                     getWormholeChainId(SOURCE_CHAIN.id),
-                    wormholeDestChains
+                    wormholeDestChains,
+                    gasLimits,
+                    executorClient
                 );
 
                 // Calculate total cost
@@ -161,31 +186,46 @@ export function usePriceUpdate() {
                         executorExplorer: true,
                     });
 
-                    // Poll for executor to complete the relay
+                    // Track every destination until the executor reports a final status
                     try {
                         const expectedDestChains = DESTINATION_CHAINS.map((c) => getWormholeChainId(c.id));
-                        const executorStatuses = await pollForExecutorCompletion(
+                        let relays: Record<number, RelayStatus | undefined> = {};
+
+                        for await (const update of trackExecutorRelays(
                             hash,
                             expectedDestChains,
                             180000, // 3 minutes
-                            5000 // 5 seconds
-                        );
-
-                        if (executorStatuses.length > 0) {
+                            5000, // 5 seconds
+                            executorClient
+                        )) {
+                            relays = update;
                             setStatus((prev) => ({
                                 ...prev,
-                                step: 'complete',
                                 destinationStatuses: Object.fromEntries(
-                                    DESTINATION_CHAINS.map((c) => [c.id, 'complete'])
+                                    DESTINATION_CHAINS.map((c) => [
+                                        c.id,
+                                        toDestinationStatus(update[getWormholeChainId(c.id)]),
+                                    ])
                                 ) as Record<number, 'pending' | 'complete' | 'failed'>,
                             }));
+                        }
 
-                            // Map destination transactions - convert Wormhole chain IDs to EVM chain IDs
-                            const destinationTxs = executorStatuses.map(s => ({
-                                chainId: getEvmChainId(s.chainId),
-                                txHash: s.txHash,
-                            }));
+                        const finished = Object.values(relays).filter(
+                            (r): r is RelayStatus => r !== undefined && isFinalRelayStatus(r)
+                        );
+                        const executed = finished.filter((r) => r.status === 'executed');
+                        const failed = finished.filter((r) => r.status !== 'executed');
+
+                        // Map destination transactions - convert Wormhole chain IDs to EVM chain IDs
+                        const destinationTxs = executed.flatMap((r) =>
+                            r.destinationTxHashes.map((txHash) => ({
+                                chainId: getEvmChainId(r.dstChain),
+                                txHash,
+                            }))
+                        );
 
+                        if (finished.length === expectedDestChains.length && failed.length === 0) {
+                            setStatus((prev) => ({ ...prev, step: 'complete' }));
                             progressToast.update({
                                 step: 4,
                                 total: 4,
@@ -196,8 +236,23 @@ export function usePriceUpdate() {
                                 wormholeScan: true,
                                 destinationTxs,
                             });
+                        } else if (failed.length > 0) {
+                            setStatus((prev) => ({ ...prev, step: 'failed' }));
+                            progressToast.update({
+                                step: 4,
+                                total: 4,
+                                title: 'Relay failed',
+                                description: failed
+                                    .map((r) => `${getChainName(getEvmChainId(r.dstChain))}: ${r.status}`)
+                                    .join(', '),
+                                txHash: hash,
+                                chainId: SOURCE_CHAIN.id,
+                                wormholeScan: true,
+                                executorExplorer: true,
+                                destinationTxs,
+                            });
                         } else {
-                            // Timeout or no status - still mark as relaying
+                            // Timeout - some destinations still in flight
                             setStatus((prev) => ({ ...prev, step: 'relaying' }));
                             progressToast.update({
                                 step: 4,
@@ -208,6 +263,7 @@ export function usePriceUpdate() {
                                 chainId: SOURCE_CHAIN.id,
                                 wormholeScan: true,
                                 executorExplorer: true,
+                                destinationTxs,
                             });
                         }
                     } catch (pollError) {
@@ -241,7 +297,11 @@ export function usePriceUpdate() {
                 }));
 
                 // Provide user-friendly error messages
-                if (error.message?.includes('User rejected')) {
+                if (error instanceof RelayValidationError) {
+                    toast.error(
+                        `Cannot relay to ${getChainName(getEvmChainId(error.chainId))}: ${error.message}`
+                    );
+                } else if (error.message?.includes('User rejected')) {
                     toast.error('Transaction was rejected by user');
                 } else if (error.message?.includes('insufficient funds')) {
                     toast.error(
@@ -261,7 +321,7 @@ export function usePriceUpdate() {
                 }, 3000);
             }
         },
-        [chainId, switchChainAsync, writeContractAsync, publicClient, messageFee]
+        [chainId, switchChainAsync, writeContractAsync, publicClient, messageFee, executorClient]
     );
 
     const reset = useCallback(() => {
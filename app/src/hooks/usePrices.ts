@@ -10,6 +10,7 @@ import {
     PRICE_FEED_RECEIVER_ABI,
 } from '@/lib/contracts';
 import { SOURCE_CHAIN } from '@/lib/chains';
+import { useOnPricesReceived, useOnPricesUpdated } from './usePriceFeedEvents';
 
 export function usePrice(chainId: number, tokenName: string) {
     const isSource = chainId === SOURCE_CHAIN.id;
@@ -68,6 +69,10 @@ export function usePrices(chainId: number, tokenNames: string[]) {
         },
     });
 
+    // Refresh as soon as new prices land, not only on the interval
+    useOnPricesReceived(chainId, () => refetch(), contracts.length > 0);
+    useOnPricesUpdated(() => refetch(), isSource && contracts.length > 0);
+
     // Convert to a map of token -> price
     const prices: Record<string, bigint | undefined> = {};
     const errors: Record<string, Error | null> = {};
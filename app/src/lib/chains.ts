@@ -45,6 +45,13 @@ export const RPC_URLS: Record<number, string> = {
     [polygonAmoy.id]: 'https://rpc-amoy.polygon.technology',
 };
 
+// Optional WebSocket RPCs; events are pushed over them instead of polled
+export const WS_URLS: Record<number, string | undefined> = {
+    [sepolia.id]: process.env.NEXT_PUBLIC_SEPOLIA_WS_URL,
+    [baseSepolia.id]: process.env.NEXT_PUBLIC_BASE_SEPOLIA_WS_URL,
+    [polygonAmoy.id]: process.env.NEXT_PUBLIC_POLYGON_AMOY_WS_URL,
+};
+
 const SOURCE_EVM_CHAIN_ID = CHAIN_KEYS.find((k) => CHAINS[k].isSource)
     ? CHAINS[CHAIN_KEYS.find((k) => CHAINS[k].isSource)!].evmChainId
     : sepolia.id;
@@ -4,6 +4,16 @@
  */
 
 import type { Hex } from 'viem';
+import { verifySignedQuote } from './signedQuote';
+import { createRelayInstructions } from './relayInstructions';
+import {
+    proxyExecutorClient,
+    type ExecutorCapabilities,
+    type ExecutorClient,
+    type ExecutorTxStatus,
+} from './executorClient';
+
+export type { ExecutorCapabilities, ExecutorClient, ExecutorTxStatus };
 
 /**
  * Default gas limit for receiving messages on the target chain
@@ -15,20 +25,6 @@ export const DEFAULT_GAS_LIMIT = 171948n;
  */
 export const DEFAULT_MSG_VALUE = 0n;
 
-/**
- * Create relay instructions for the Executor quote request
- * Format: 0x01 (version byte) + uint128 gasLimit (16 bytes) + uint128 msgValue (16 bytes)
- */
-export function createRelayInstructions(
-    gasLimit: bigint = DEFAULT_GAS_LIMIT,
-    msgValue: bigint = DEFAULT_MSG_VALUE
-): Hex {
-    const version = '01';
-    const gasLimitHex = gasLimit.toString(16).padStart(32, '0');
-    const msgValueHex = msgValue.toString(16).padStart(32, '0');
-    return ('0x' + version + gasLimitHex + msgValueHex) as Hex;
-}
-
 /**
  * Calculate total cost including message fee
  */
@@ -54,54 +50,151 @@ export interface RelayTarget {
     signedQuote: Hex;
 }
 
-// Use local API route to avoid CORS issues
-const EXECUTOR_API_PROXY = '/api/executor/quote';
+// Cached quotes are refreshed once they expire within this window
+const QUOTE_REFRESH_MARGIN_MS = 30000;
+
+// Quotes keyed by client + route + relay instructions, with the expiry from the signed quote
+const quoteCaches = new WeakMap<
+    ExecutorClient,
+    Map<string, { quote: ExecutorQuote; expiresAt: number }>
+>();
 
 /**
- * Get a quote from the Executor API (via proxy)
+ * Get a quote from the Executor API (via proxy by default)
+ * The signed quote is verified locally since the proxy response is not trusted.
+ * Quotes are reused until they are about to expire.
  */
 export async function getExecutorQuote(
     srcChain: number,
     dstChain: number,
-    relayInstructions?: Hex
+    relayInstructions?: Hex,
+    client: ExecutorClient = proxyExecutorClient
 ): Promise<ExecutorQuote> {
-    const response = await fetch(EXECUTOR_API_PROXY, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            srcChain,
-            dstChain,
-            relayInstructions,
-        }),
-    });
-
-    if (!response.ok) {
-        throw new Error(`Failed to get executor quote: ${response.statusText}`);
+    let quoteCache = quoteCaches.get(client);
+    if (!quoteCache) {
+        quoteCache = new Map();
+        quoteCaches.set(client, quoteCache);
+    }
+
+    const cacheKey = `${srcChain}:${dstChain}:${(relayInstructions ?? '0x').toLowerCase()}`;
+    const cached = quoteCache.get(cacheKey);
+    if (cached && cached.expiresAt - Date.now() > QUOTE_REFRESH_MARGIN_MS) {
+        return cached.quote;
     }
+    quoteCache.delete(cacheKey);
 
-    const data = await response.json();
+    const data = await client.getQuote(srcChain, dstChain, relayInstructions);
+    const decoded = await verifySignedQuote(data.signedQuote, srcChain, dstChain);
 
-    return {
-        signedQuote: data.signedQuote as Hex,
+    const quote: ExecutorQuote = {
+        signedQuote: data.signedQuote,
         estimatedCost: BigInt(data.estimatedCost),
     };
+    quoteCache.set(cacheKey, { quote, expiresAt: decoded.expiryTime.getTime() });
+
+    return quote;
+}
+
+/**
+ * A relay request the Executor cannot serve, detected before quoting
+ */
+export class RelayValidationError extends Error {
+    readonly chainId: number;
+
+    constructor(chainId: number, message: string) {
+        super(message);
+        this.name = 'RelayValidationError';
+        this.chainId = chainId;
+    }
+}
+
+const CAPABILITIES_TTL_MS = 5 * 60 * 1000;
+const capabilitiesCache = new WeakMap<
+    ExecutorClient,
+    { capabilities: Record<number, ExecutorCapabilities>; fetchedAt: number }
+>();
+
+/**
+ * Get Executor capabilities for all chains (via proxy by default), cached for 5 minutes
+ */
+export async function getExecutorCapabilities(
+    client: ExecutorClient = proxyExecutorClient
+): Promise<Record<number, ExecutorCapabilities>> {
+    const cached = capabilitiesCache.get(client);
+    if (cached && Date.now() - cached.fetchedAt < CAPABILITIES_TTL_MS) {
+        return cached.capabilities;
+    }
+
+    const capabilities = await client.getCapabilities();
+    capabilitiesCache.set(client, { capabilities, fetchedAt: Date.now() });
+    return capabilities;
+}
+
+/**
+ * Check that the Executor can relay to every destination with these parameters
+ * `gasLimit` applies to every destination, or is given per Wormhole chain ID.
+ * Throws RelayValidationError for the first destination it cannot serve
+ */
+export async function validateRelayTargets(
+    srcChain: number,
+    dstChains: number[],
+    gasLimit: bigint | Record<number, bigint>,
+    msgValue: bigint = DEFAULT_MSG_VALUE,
+    client: ExecutorClient = proxyExecutorClient
+): Promise<void> {
+    const capabilities = await getExecutorCapabilities(client);
+
+    if (!capabilities[srcChain]) {
+        throw new RelayValidationError(srcChain, `Executor does not support source chain ${srcChain}`);
+    }
+
+    for (const dstChain of dstChains) {
+        const dst = capabilities[dstChain];
+        const dstGasLimit = typeof gasLimit === 'bigint' ? gasLimit : gasLimit[dstChain];
+        if (!dst) {
+            throw new RelayValidationError(dstChain, `Executor does not support destination chain ${dstChain}`);
+        }
+        if (!dst.requestPrefixes.includes('ERV1')) {
+            throw new RelayValidationError(dstChain, `Executor does not accept VAA relay requests for chain ${dstChain}`);
+        }
+        if (dst.maxGasLimit && dstGasLimit > BigInt(dst.maxGasLimit)) {
+            throw new RelayValidationError(
+                dstChain,
+                `Gas limit ${dstGasLimit} exceeds executor maximum ${dst.maxGasLimit} for chain ${dstChain}`
+            );
+        }
+        if (dst.maxMsgValue && msgValue > BigInt(dst.maxMsgValue)) {
+            throw new RelayValidationError(
+                dstChain,
+                `msg.value ${msgValue} exceeds executor maximum ${dst.maxMsgValue} for chain ${dstChain}`
+            );
+        }
+    }
 }
 
 /**
  * Get quotes for multiple destination chains
+ * `gasLimits` is keyed by Wormhole chain ID (see estimateDestinationGasLimits);
+ * destinations without one use twice the default gas limit.
+ * Relay parameters are validated against Executor capabilities first
  */
 export async function getMultiChainQuotes(
     srcChain: number,
-    dstChains: number[]
+    dstChains: number[],
+    gasLimits: Record<number, bigint> = {},
+    client: ExecutorClient = proxyExecutorClient
 ): Promise<RelayTarget[]> {
-    const gasLimit = DEFAULT_GAS_LIMIT * BigInt(2);
-    const relayInstructions = createRelayInstructions(gasLimit, DEFAULT_MSG_VALUE);
+    const resolvedGasLimits: Record<number, bigint> = Object.fromEntries(
+        dstChains.map((dstChain) => [dstChain, gasLimits[dstChain] ?? DEFAULT_GAS_LIMIT * BigInt(2)])
+    );
+
+    await validateRelayTargets(srcChain, dstChains, resolvedGasLimits, DEFAULT_MSG_VALUE, client);
 
     const quotes = await Promise.all(
         dstChains.map(async (dstChain) => {
-            const quote = await getExecutorQuote(srcChain, dstChain, relayInstructions);
+            const gasLimit = resolvedGasLimits[dstChain];
+            const relayInstructions = createRelayInstructions(gasLimit, DEFAULT_MSG_VALUE);
+            const quote = await getExecutorQuote(srcChain, dstChain, relayInstructions, client);
             return {
                 chainId: dstChain,
                 gasLimit,
@@ -115,83 +208,131 @@ export async function getMultiChainQuotes(
 }
 
 /**
- * Transaction status from Executor API
+ * Typed status of one relay (one destination of the source transaction)
  */
-export interface ExecutorTxStatus {
-    txHash: string;
-    chainId: number;
-    blockNumber: string;
-    blockTime: string;
-    status: string;
+export type RelayStatus =
+    | { status: 'pending' | 'submitted' | 'executed'; dstChain: number; destinationTxHashes: string[] }
+    | {
+          status: 'error' | 'underpaid' | 'aborted';
+          dstChain: number;
+          destinationTxHashes: string[];
+          reason: string;
+      };
+
+/**
+ * Whether a relay status will not change any more
+ */
+export function isFinalRelayStatus(relay: RelayStatus): boolean {
+    return relay.status !== 'pending' && relay.status !== 'submitted';
+}
+
+/**
+ * Convert a raw status record into the typed model
+ * A submitted relay with destination transactions has been executed
+ */
+export function parseRelayStatus(raw: ExecutorTxStatus): RelayStatus {
+    const base = {
+        dstChain: raw.requestForExecution?.dstChain ?? 0,
+        destinationTxHashes: (raw.txs ?? []).map((tx) => tx.txHash),
+    };
+    const reason = raw.failureCause || `Executor reported ${raw.status}`;
+
+    switch (raw.status.toLowerCase()) {
+        case 'pending':
+            return { ...base, status: 'pending' };
+        case 'submitted':
+            return { ...base, status: base.destinationTxHashes.length > 0 ? 'executed' : 'submitted' };
+        case 'executed':
+        case 'completed':
+        case 'success':
+            return { ...base, status: 'executed' };
+        case 'underpaid':
+        case 'aborted':
+            return { ...base, status: raw.status.toLowerCase() as 'underpaid' | 'aborted', reason };
+        default:
+            return { ...base, status: 'error', reason };
+    }
 }
 
 /**
- * Check transaction status via Executor API (via proxy)
+ * Check transaction status via Executor API (via proxy by default)
  */
 export async function checkExecutorStatus(
     txHash: string,
-    chainId?: number
+    chainId?: number,
+    client: ExecutorClient = proxyExecutorClient
 ): Promise<ExecutorTxStatus[]> {
-    const response = await fetch('/api/executor/status', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            txHash,
-            chainId,
-        }),
-    });
-
-    if (!response.ok) {
-        throw new Error(`Failed to check executor status: ${response.statusText}`);
-    }
-
-    return await response.json();
+    return client.getStatus(txHash, chainId);
 }
 
 /**
- * Poll for executor to complete relay
- * Returns when all destination chains have been processed
+ * Follow every destination chain of a source transaction until each is final
+ * Yields the latest status per destination (Wormhole chain ID) whenever one changes
  */
-export async function pollForExecutorCompletion(
+export async function* trackExecutorRelays(
     txHash: string,
     expectedDestChains: number[],
     timeoutMs: number = 180000, // 3 minutes
-    pollIntervalMs: number = 5000 // 5 seconds
-): Promise<ExecutorTxStatus[]> {
+    pollIntervalMs: number = 5000, // 5 seconds
+    client: ExecutorClient = proxyExecutorClient
+): AsyncGenerator<Record<number, RelayStatus | undefined>> {
     const startTime = Date.now();
+    const statuses: Record<number, RelayStatus | undefined> = {};
 
     while (Date.now() - startTime < timeoutMs) {
+        let changed = false;
         try {
-            const statuses = await checkExecutorStatus(txHash);
-            
-            // Check if we have all expected destination chains
-            const completedChains = statuses
-                .filter(s => s.status === 'completed' || s.status === 'success')
-                .map(s => s.chainId);
-            
-            const allComplete = expectedDestChains.every(chainId =>
-                completedChains.includes(chainId)
-            );
-
-            if (allComplete) {
-                return statuses;
-            }
-
-            // If we have partial results, return them
-            if (statuses.length > 0) {
-                return statuses;
+            const relays = (await checkExecutorStatus(txHash, undefined, client)).map(parseRelayStatus);
+            for (const relay of relays) {
+                if (!expectedDestChains.includes(relay.dstChain)) continue;
+                const previous = statuses[relay.dstChain];
+                if (
+                    previous?.status !== relay.status ||
+                    previous.destinationTxHashes.length !== relay.destinationTxHashes.length
+                ) {
+                    statuses[relay.dstChain] = relay;
+                    changed = true;
+                }
             }
         } catch (error) {
             // Continue polling on error
             console.log('Polling executor status...', error);
         }
 
+        if (changed) {
+            yield { ...statuses };
+        }
+
+        const allFinal = expectedDestChains.every((chainId) => {
+            const relay = statuses[chainId];
+            return relay !== undefined && isFinalRelayStatus(relay);
+        });
+        if (allFinal) return;
+
         await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
     }
-
-    // Timeout - return empty array
-    return [];
 }
 
+/**
+ * Poll for executor to complete relay
+ * Returns once every destination chain is final, or the last known statuses on timeout
+ */
+export async function pollForExecutorCompletion(
+    txHash: string,
+    expectedDestChains: number[],
+    timeoutMs: number = 180000, // 3 minutes
+    pollIntervalMs: number = 5000, // 5 seconds
+    client: ExecutorClient = proxyExecutorClient
+): Promise<Record<number, RelayStatus | undefined>> {
+    let latest: Record<number, RelayStatus | undefined> = {};
+    for await (const statuses of trackExecutorRelays(
+        txHash,
+        expectedDestChains,
+        timeoutMs,
+        pollIntervalMs,
+        client
+    )) {
+        latest = statuses;
+    }
+    return latest;
+}
@@ -0,0 +1,116 @@
+/**
+ * Executor client for the frontend and the API proxy routes
+ * Self-contained to avoid import path issues with Next.js
+ */
+
+import type { Hex } from 'viem';
+
+/**
+ * Executor API URLs by network (with /v0 path included)
+ */
+export const EXECUTOR_API_URLS = {
+    Mainnet: 'https://executor.labsapis.com/v0',
+    Testnet: 'https://executor-testnet.labsapis.com/v0',
+} as const;
+
+export type NetworkType = keyof typeof EXECUTOR_API_URLS;
+
+/**
+ * Executor API URL used by the proxy routes
+ * EXECUTOR_API_URL (server-side env) overrides every network, e.g. to use a local mock executor
+ */
+export function getExecutorApiUrl(network: NetworkType = 'Testnet'): string | undefined {
+    return process.env.EXECUTOR_API_URL || EXECUTOR_API_URLS[network];
+}
+
+/**
+ * Executor capabilities for a single chain
+ */
+export interface ExecutorCapabilities {
+    requestPrefixes: string[];
+    gasDropOffLimit?: string;
+    maxGasLimit?: string;
+    maxMsgValue?: string;
+}
+
+/**
+ * Quote as returned by the Executor API (cost still a decimal string)
+ */
+export interface ExecutorQuoteResponse {
+    signedQuote: Hex;
+    estimatedCost: string;
+}
+
+/**
+ * Raw relay record from the Executor status API
+ */
+export interface ExecutorTxStatus {
+    txHash: string;
+    chainId: number;
+    status: string;
+    failureCause?: string;
+    requestForExecution?: {
+        dstChain: number;
+    };
+    txs?: Array<{
+        txHash: string;
+        chainId: number;
+    }>;
+}
+
+/**
+ * Access to an Executor service - injectable so hooks can run offline
+ */
+export interface ExecutorClient {
+    getCapabilities(): Promise<Record<number, ExecutorCapabilities>>;
+    getQuote(
+        srcChain: number,
+        dstChain: number,
+        relayInstructions?: Hex
+    ): Promise<ExecutorQuoteResponse>;
+    getStatus(txHash: string, chainId?: number): Promise<ExecutorTxStatus[]>;
+}
+
+/**
+ * Create a client for an Executor-compatible HTTP API
+ * `statusPath` differs between the upstream API and the local proxy
+ */
+export function createHttpExecutorClient(
+    baseUrl: string,
+    statusPath: string = '/status/tx'
+): ExecutorClient {
+    async function request<T>(path: string, what: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to ${what}: ${response.statusText}`);
+        }
+
+        return (await response.json()) as T;
+    }
+
+    return {
+        getCapabilities: () =>
+            request<Record<number, ExecutorCapabilities>>('/capabilities', 'get executor capabilities'),
+        getQuote: (srcChain, dstChain, relayInstructions) =>
+            request<ExecutorQuoteResponse>('/quote', 'get executor quote', {
+                srcChain,
+                dstChain,
+                relayInstructions,
+            }),
+        getStatus: (txHash, chainId) =>
+            request<ExecutorTxStatus[]>(statusPath, 'check executor status', {
+                txHash,
+                ...(chainId && { chainId }),
+            }),
+    };
+}
+
+// Use local API routes from the browser to avoid CORS issues
+export const proxyExecutorClient = createHttpExecutorClient('/api/executor', '/status');
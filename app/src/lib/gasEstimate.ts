@@ -0,0 +1,100 @@
+/**
+ * Destination gas-limit estimation for price updates
+ * Self-contained to avoid import path issues with Next.js
+ *
+ * Models the PriceFeedReceiver cost from the encoded payload and the prices
+ * already stored on each destination (a new slot costs more than an update).
+ */
+
+import { encodeAbiParameters, size } from 'viem';
+import { readContracts } from 'wagmi/actions';
+import { wagmiConfig } from './wagmi';
+import { getContractAddress, PRICE_FEED_RECEIVER_ABI } from './contracts';
+import { getWormholeChainId } from './chains';
+
+// Intrinsic gas, VAA parsing, peer lookup, replay protection and the event
+const BASE_DELIVERY_GAS = 75000n;
+// ecrecover plus guardian checks, per signature
+const SIGNATURE_VERIFY_GAS = 6500n;
+// Calldata plus copying, hashing and decoding, per VAA byte
+const GAS_PER_VAA_BYTE = 24n;
+// Loop, memory and the keccak of the token name, per token
+const GAS_PER_TOKEN = 2500n;
+const NEW_SLOT_GAS = 22100n;
+const UPDATED_SLOT_GAS = 5000n;
+
+// VAA header, one guardian signature, and body fields before the payload
+const VAA_OVERHEAD_BYTES = 6 + 51;
+const VAA_SIGNATURE_BYTES = 66;
+
+// The testnet guardian set has a single guardian
+const GUARDIAN_QUORUM = 1;
+
+/**
+ * Extra gas on top of the estimate, in basis points (25%)
+ */
+export const GAS_SAFETY_MARGIN_BPS = 2500n;
+
+/**
+ * Estimate the gas limit for delivering a price update to one destination
+ * `newSlots` is the number of tokens with no stored price on the destination
+ */
+export function estimateDeliveryGasLimit(
+    symbols: string[],
+    prices: bigint[],
+    newSlots: number = symbols.length,
+    safetyMarginBps: bigint = GAS_SAFETY_MARGIN_BPS
+): bigint {
+    const payload = encodeAbiParameters(
+        [{ type: 'string[]' }, { type: 'uint256[]' }],
+        [symbols, prices]
+    );
+    const vaaBytes = VAA_OVERHEAD_BYTES + VAA_SIGNATURE_BYTES * GUARDIAN_QUORUM + size(payload);
+
+    const estimatedGas =
+        BASE_DELIVERY_GAS +
+        SIGNATURE_VERIFY_GAS * BigInt(GUARDIAN_QUORUM) +
+        BigInt(vaaBytes) * GAS_PER_VAA_BYTE +
+        BigInt(symbols.length) * GAS_PER_TOKEN +
+        BigInt(newSlots) * NEW_SLOT_GAS +
+        BigInt(symbols.length - newSlots) * UPDATED_SLOT_GAS;
+
+    return (estimatedGas * (10000n + safetyMarginBps)) / 10000n;
+}
+
+/**
+ * Estimate the gas limit per destination (keyed by Wormhole chain ID)
+ * Reads the stored prices on each destination; if that fails every token
+ * is treated as a new slot.
+ */
+export async function estimateDestinationGasLimits(
+    symbols: string[],
+    prices: bigint[],
+    destinationChainIds: number[]
+): Promise<Record<number, bigint>> {
+    const unique = [...new Set(symbols)];
+
+    const entries = await Promise.all(
+        destinationChainIds.map(async (chainId) => {
+            let newSlots = unique.length;
+            try {
+                const stored = await readContracts(wagmiConfig, {
+                    contracts: unique.map((symbol) => ({
+                        address: getContractAddress(chainId),
+                        abi: PRICE_FEED_RECEIVER_ABI,
+                        functionName: 'prices',
+                        args: [symbol],
+                        chainId: chainId as 11155111 | 84532 | 80002,
+                    })),
+                    allowFailure: false,
+                });
+                newSlots = stored.filter((price) => (price as bigint) === 0n).length;
+            } catch {
+                // Assume new slots - the more expensive case
+            }
+            return [getWormholeChainId(chainId), estimateDeliveryGasLimit(symbols, prices, newSlots)];
+        })
+    );
+
+    return Object.fromEntries(entries);
+}
@@ -0,0 +1,145 @@
+/**
+ * Relay instructions codec for Wormhole Executor (mirrors ts-lib/relay.ts)
+ * Self-contained to avoid import path issues with Next.js
+ *
+ * Relay instructions are a concatenation of typed instructions, big-endian:
+ * - 0x01 GasInstruction: gasLimit (uint128) | msgValue (uint128)
+ * - 0x02 GasDropOffInstruction: dropOff (uint128) | recipient (bytes32)
+ */
+
+import { concat, isHex, numberToHex, pad, size, slice, type Hex } from 'viem';
+
+export type RelayInstruction =
+    | { type: 'GasInstruction'; gasLimit: bigint; msgValue: bigint }
+    | { type: 'GasDropOffInstruction'; dropOff: bigint; recipient: Hex };
+
+export const GAS_INSTRUCTION_TYPE = 1;
+export const GAS_DROP_OFF_INSTRUCTION_TYPE = 2;
+
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+// Instruction sizes including the type byte
+const GAS_INSTRUCTION_SIZE = 33;
+const GAS_DROP_OFF_INSTRUCTION_SIZE = 49;
+
+/**
+ * Relay instructions could not be encoded or decoded
+ */
+export class RelayInstructionsError extends Error {
+    readonly reason: 'malformed' | 'unknown-type' | 'out-of-range';
+
+    constructor(reason: 'malformed' | 'unknown-type' | 'out-of-range', message: string) {
+        super(message);
+        this.name = 'RelayInstructionsError';
+        this.reason = reason;
+    }
+}
+
+function encodeUint128(value: bigint, field: string): Hex {
+    if (value < 0n || value > MAX_UINT128) {
+        throw new RelayInstructionsError('out-of-range', `${field} ${value} does not fit in a uint128`);
+    }
+    return numberToHex(value, { size: 16 });
+}
+
+function encodeRecipient(recipient: Hex): Hex {
+    if (!isHex(recipient) || (size(recipient) !== 20 && size(recipient) !== 32)) {
+        throw new RelayInstructionsError(
+            'malformed',
+            `Drop-off recipient must be a 20-byte address or 32-byte universal address, got ${recipient}`
+        );
+    }
+    return pad(recipient, { size: 32 });
+}
+
+/**
+ * Encode relay instructions in the given order
+ * Drop-off recipients may be EVM addresses; they are padded to bytes32
+ */
+export function encodeRelayInstructions(instructions: RelayInstruction[]): Hex {
+    return concat([
+        '0x',
+        ...instructions.map((instruction) =>
+            instruction.type === 'GasInstruction'
+                ? concat([
+                      numberToHex(GAS_INSTRUCTION_TYPE, { size: 1 }),
+                      encodeUint128(instruction.gasLimit, 'gasLimit'),
+                      encodeUint128(instruction.msgValue, 'msgValue'),
+                  ])
+                : concat([
+                      numberToHex(GAS_DROP_OFF_INSTRUCTION_TYPE, { size: 1 }),
+                      encodeUint128(instruction.dropOff, 'dropOff'),
+                      encodeRecipient(instruction.recipient),
+                  ])
+        ),
+    ]);
+}
+
+/**
+ * Decode concatenated relay instructions
+ * Throws RelayInstructionsError on unknown types or truncated input
+ */
+export function decodeRelayInstructions(relayInstructions: Hex): RelayInstruction[] {
+    if (!isHex(relayInstructions)) {
+        throw new RelayInstructionsError('malformed', 'Relay instructions are not hex');
+    }
+
+    const instructions: RelayInstruction[] = [];
+    const length = size(relayInstructions);
+    let offset = 0;
+
+    while (offset < length) {
+        const type = Number(slice(relayInstructions, offset, offset + 1));
+        const instructionSize =
+            type === GAS_INSTRUCTION_TYPE
+                ? GAS_INSTRUCTION_SIZE
+                : type === GAS_DROP_OFF_INSTRUCTION_TYPE
+                  ? GAS_DROP_OFF_INSTRUCTION_SIZE
+                  : undefined;
+
+        if (instructionSize === undefined) {
+            throw new RelayInstructionsError('unknown-type', `Unknown relay instruction type ${type} at byte ${offset}`);
+        }
+        if (offset + instructionSize > length) {
+            throw new RelayInstructionsError('malformed', `Relay instruction at byte ${offset} is truncated`);
+        }
+
+        const first = BigInt(slice(relayInstructions, offset + 1, offset + 17));
+        instructions.push(
+            type === GAS_INSTRUCTION_TYPE
+                ? {
+                      type: 'GasInstruction',
+                      gasLimit: first,
+                      msgValue: BigInt(slice(relayInstructions, offset + 17, offset + 33)),
+                  }
+                : {
+                      type: 'GasDropOffInstruction',
+                      dropOff: first,
+                      recipient: slice(relayInstructions, offset + 17, offset + 49),
+                  }
+        );
+        offset += instructionSize;
+    }
+
+    return instructions;
+}
+
+/**
+ * Create relay instructions for the Executor quote request
+ * A gas instruction, optionally followed by a gas drop-off to `dropOff.recipient`
+ */
+export function createRelayInstructions(
+    gasLimit: bigint,
+    msgValue: bigint,
+    dropOff?: { amount: bigint; recipient: Hex }
+): Hex {
+    const instructions: RelayInstruction[] = [{ type: 'GasInstruction', gasLimit, msgValue }];
+    if (dropOff) {
+        instructions.push({
+            type: 'GasDropOffInstruction',
+            dropOff: dropOff.amount,
+            recipient: dropOff.recipient,
+        });
+    }
+    return encodeRelayInstructions(instructions);
+}
@@ -0,0 +1,117 @@
+/**
+ * Signed quote decoding and verification for the frontend
+ * Self-contained to avoid import path issues with Next.js
+ *
+ * Layout (EQ01): prefix (4) | quoter (20) | payee (32) | srcChain (2) | dstChain (2)
+ * | expiryTime (8) | baseFee (8) | dstGasPrice (8) | srcPrice (8) | dstPrice (8)
+ * | signature (65)
+ */
+
+import {
+    getAddress,
+    hexToBigInt,
+    hexToNumber,
+    isAddress,
+    isHex,
+    keccak256,
+    recoverAddress,
+    size,
+    slice,
+    type Address,
+    type Hex,
+} from 'viem';
+
+const SIGNED_QUOTE_PREFIX = '0x45513031'; // "EQ01"
+const QUOTE_BODY_LENGTH = 100;
+const SIGNED_QUOTE_LENGTH = QUOTE_BODY_LENGTH + 65;
+
+/**
+ * Quoter addresses trusted to sign quotes, from NEXT_PUBLIC_EXECUTOR_TRUSTED_QUOTERS
+ * Empty skips the allowlist (as EXECUTOR_TRUSTED_QUOTERS does for the
+ * backend); entries that are not addresses are ignored with a warning
+ */
+export const TRUSTED_QUOTERS: Address[] = (
+    process.env.NEXT_PUBLIC_EXECUTOR_TRUSTED_QUOTERS || ''
+)
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean)
+    .filter((address) => {
+        if (isAddress(address)) return true;
+        console.warn(
+            `Ignoring invalid NEXT_PUBLIC_EXECUTOR_TRUSTED_QUOTERS entry: ${address}`
+        );
+        return false;
+    })
+    .map((address) => getAddress(address));
+
+export interface DecodedSignedQuote {
+    quoterAddress: Address;
+    payeeAddress: Hex;
+    srcChain: number;
+    dstChain: number;
+    expiryTime: Date;
+    baseFee: bigint;
+    dstGasPrice: bigint;
+    srcPrice: bigint;
+    dstPrice: bigint;
+    signature: Hex;
+}
+
+/**
+ * Decode a signed quote into its typed fields (no signature check)
+ */
+export function decodeSignedQuote(signedQuote: Hex): DecodedSignedQuote {
+    if (!isHex(signedQuote) || size(signedQuote) !== SIGNED_QUOTE_LENGTH) {
+        throw new Error('Malformed signed quote');
+    }
+    if (slice(signedQuote, 0, 4).toLowerCase() !== SIGNED_QUOTE_PREFIX) {
+        throw new Error('Unknown signed quote prefix');
+    }
+
+    return {
+        quoterAddress: getAddress(slice(signedQuote, 4, 24)),
+        payeeAddress: slice(signedQuote, 24, 56),
+        srcChain: hexToNumber(slice(signedQuote, 56, 58)),
+        dstChain: hexToNumber(slice(signedQuote, 58, 60)),
+        expiryTime: new Date(Number(hexToBigInt(slice(signedQuote, 60, 68))) * 1000),
+        baseFee: hexToBigInt(slice(signedQuote, 68, 76)),
+        dstGasPrice: hexToBigInt(slice(signedQuote, 76, 84)),
+        srcPrice: hexToBigInt(slice(signedQuote, 84, 92)),
+        dstPrice: hexToBigInt(slice(signedQuote, 92, 100)),
+        signature: slice(signedQuote, QUOTE_BODY_LENGTH),
+    };
+}
+
+/**
+ * Verify a quote returned by the executor proxy before using it on-chain
+ * Checks the signer, the quoter allowlist (if configured), the route and the expiry
+ */
+export async function verifySignedQuote(
+    signedQuote: Hex,
+    srcChain: number,
+    dstChain: number
+): Promise<DecodedSignedQuote> {
+    const decoded = decodeSignedQuote(signedQuote);
+
+    const signer = await recoverAddress({
+        hash: keccak256(slice(signedQuote, 0, QUOTE_BODY_LENGTH)),
+        signature: decoded.signature,
+    });
+    if (signer !== decoded.quoterAddress) {
+        throw new Error('Signed quote signature does not match its quoter');
+    }
+    if (TRUSTED_QUOTERS.length > 0 && !TRUSTED_QUOTERS.includes(signer)) {
+        throw new Error(`Untrusted executor quoter: ${signer}`);
+    }
+    if (decoded.srcChain !== srcChain || decoded.dstChain !== dstChain) {
+        throw new Error(
+            `Quote is for route ${decoded.srcChain} -> ${decoded.dstChain}, expected ${srcChain} -> ${dstChain}`
+        );
+    }
+    if (decoded.expiryTime.getTime() <= Date.now()) {
+        throw new Error('Executor quote has already expired');
+    }
+
+    return decoded;
+}
@@ -2,15 +2,20 @@
  * wagmi configuration with AppKit
  */
 
-import { cookieStorage, createStorage, http } from 'wagmi';
+import { cookieStorage, createStorage, fallback, http, webSocket } from 'wagmi';
 import { WagmiAdapter } from '@reown/appkit-adapter-wagmi';
-import { SUPPORTED_CHAINS, RPC_URLS } from './chains';
+import { SUPPORTED_CHAINS, RPC_URLS, WS_URLS } from './chains';
 
 export const projectId = '5af1682c9344b8d4bdc05be5c350a8e8';
 
 // Build transports dynamically from supported chains
+// With a WebSocket RPC, event watchers subscribe instead of polling
 const transports = Object.fromEntries(
-    SUPPORTED_CHAINS.map((chain) => [chain.id, http(RPC_URLS[chain.id])])
+    SUPPORTED_CHAINS.map((chain) => {
+        const wsUrl = WS_URLS[chain.id];
+        const rpc = http(RPC_URLS[chain.id]);
+        return [chain.id, wsUrl ? fallback([webSocket(wsUrl), rpc]) : rpc];
+    })
 );
 
 export const wagmiAdapter = new WagmiAdapter({
@@ -24,4 +24,76 @@ export const CoreBridgeABI = [
         outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
         stateMutability: 'view',
     },
+    {
+        type: 'function',
+        name: 'getCurrentGuardianSetIndex',
+        inputs: [],
+        outputs: [{ name: '', type: 'uint32', internalType: 'uint32' }],
+        stateMutability: 'view',
+    },
+    {
+        type: 'function',
+        name: 'getGuardianSet',
+        inputs: [{ name: 'index', type: 'uint32', internalType: 'uint32' }],
+        outputs: [
+            {
+                name: '',
+                type: 'tuple',
+                internalType: 'struct Structs.GuardianSet',
+                components: [
+                    { name: 'keys', type: 'address[]', internalType: 'address[]' },
+                    { name: 'expirationTime', type: 'uint32', internalType: 'uint32' },
+                ],
+            },
+        ],
+        stateMutability: 'view',
+    },
+    {
+        type: 'event',
+        name: 'LogMessagePublished',
+        inputs: [
+            { name: 'sender', type: 'address', indexed: true, internalType: 'address' },
+            { name: 'sequence', type: 'uint64', indexed: false, internalType: 'uint64' },
+            { name: 'nonce', type: 'uint32', indexed: false, internalType: 'uint32' },
+            { name: 'payload', type: 'bytes', indexed: false, internalType: 'bytes' },
+            { name: 'consistencyLevel', type: 'uint8', indexed: false, internalType: 'uint8' },
+        ],
+        anonymous: false,
+    },
+] as const;
+
+/**
+ * PriceFeed events, typed so decoded logs carry typed args
+ * (the JSON ABIs above are cast to the generic Abi)
+ */
+export const PriceFeedEventsABI = [
+    {
+        type: 'event',
+        name: 'LocalPricesStored',
+        inputs: [
+            { name: 'tokenNames', type: 'string[]', indexed: false, internalType: 'string[]' },
+            { name: 'prices', type: 'uint256[]', indexed: false, internalType: 'uint256[]' },
+        ],
+        anonymous: false,
+    },
+    {
+        type: 'event',
+        name: 'PricesUpdated',
+        inputs: [
+            { name: 'count', type: 'uint256', indexed: false, internalType: 'uint256' },
+            { name: 'targetChain', type: 'uint16', indexed: false, internalType: 'uint16' },
+            { name: 'sequence', type: 'uint64', indexed: false, internalType: 'uint64' },
+        ],
+        anonymous: false,
+    },
+    {
+        type: 'event',
+        name: 'PricesReceived',
+        inputs: [
+            { name: 'count', type: 'uint256', indexed: false, internalType: 'uint256' },
+            { name: 'senderChain', type: 'uint16', indexed: false, internalType: 'uint16' },
+            { name: 'sender', type: 'bytes32', indexed: false, internalType: 'bytes32' },
+        ],
+        anonymous: false,
+    },
 ] as const;
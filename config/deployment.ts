@@ -0,0 +1,304 @@
+/**
+ * Deployment file loading and schema validation
+ *
+ * A deployment file (JSON or YAML) describes, per network, the chains the
+ * oracle is deployed on: their role, PriceFeed contract, RPCs and gas
+ * settings. config/index.ts builds `config` and the derived constants from
+ * the selected profile, with environment variables taking precedence.
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { isAddress, type Address } from 'viem';
+import {
+    isChain,
+    isNetwork,
+    type Network,
+} from '@wormhole-foundation/sdk-base';
+import type {
+    ChainGasSettings,
+    DeploymentChain,
+    DeploymentFile,
+    DeploymentProfile,
+    NativeCurrency,
+} from './types';
+import { DeploymentConfigError } from './errors';
+
+type DeploymentFormat = 'json' | 'yaml';
+
+// Config keys become environment variable names (baseSepolia -> BASE_SEPOLIA)
+const CHAIN_KEY_PATTERN = /^[a-z][A-Za-z0-9]*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+    if (!isObject(value)) {
+        throw new DeploymentConfigError(path, 'must be an object');
+    }
+    return value;
+}
+
+function expectString(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new DeploymentConfigError(path, 'must be a non-empty string');
+    }
+    return value.trim();
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+    return value === undefined || value === null || value === ''
+        ? undefined
+        : expectString(value, path);
+}
+
+/** YAML scalars are read as strings, so numbers may arrive as either */
+function expectInteger(value: unknown, path: string): bigint {
+    const text = typeof value === 'number' ? String(value) : value;
+    if (typeof text !== 'string' || !/^\d+$/.test(text.trim())) {
+        throw new DeploymentConfigError(path, 'must be a non-negative integer');
+    }
+    return BigInt(text.trim());
+}
+
+function optionalInteger(value: unknown, path: string): bigint | undefined {
+    return value === undefined || value === null || value === ''
+        ? undefined
+        : expectInteger(value, path);
+}
+
+function parseGasSettings(
+    value: unknown,
+    path: string
+): ChainGasSettings | undefined {
+    if (value === undefined || value === null) return undefined;
+    const gas = expectObject(value, path);
+    const safetyMarginBps = optionalInteger(
+        gas.safetyMarginBps,
+        `${path}.safetyMarginBps`
+    );
+    return {
+        gasLimit: optionalInteger(gas.gasLimit, `${path}.gasLimit`),
+        safetyMarginBps:
+            safetyMarginBps === undefined ? undefined : Number(safetyMarginBps),
+        maxFeePerGas: optionalInteger(gas.maxFeePerGas, `${path}.maxFeePerGas`),
+    };
+}
+
+function parseNativeCurrency(
+    value: unknown,
+    path: string
+): NativeCurrency | undefined {
+    if (value === undefined || value === null) return undefined;
+    const currency = expectObject(value, path);
+    return {
+        name: expectString(currency.name, `${path}.name`),
+        symbol: expectString(currency.symbol, `${path}.symbol`),
+        decimals: Number(expectInteger(currency.decimals, `${path}.decimals`)),
+    };
+}
+
+function parseChain(value: unknown, path: string): DeploymentChain {
+    const chain = expectObject(value, path);
+
+    const wormholeChain = expectString(
+        chain.wormholeChain,
+        `${path}.wormholeChain`
+    );
+    if (!isChain(wormholeChain)) {
+        throw new DeploymentConfigError(
+            `${path}.wormholeChain`,
+            `${wormholeChain} is not a Wormhole chain`
+        );
+    }
+
+    const evmChainId = expectInteger(chain.evmChainId, `${path}.evmChainId`);
+    if (evmChainId === 0n) {
+        throw new DeploymentConfigError(`${path}.evmChainId`, 'must not be 0');
+    }
+
+    const role = chain.role;
+    if (role !== 'source' && role !== 'destination') {
+        throw new DeploymentConfigError(
+            `${path}.role`,
+            "must be 'source' or 'destination'"
+        );
+    }
+
+    const priceFeed = optionalString(chain.priceFeed, `${path}.priceFeed`);
+    if (priceFeed !== undefined && !isAddress(priceFeed)) {
+        throw new DeploymentConfigError(
+            `${path}.priceFeed`,
+            `${priceFeed} is not an address`
+        );
+    }
+
+    const rpcUrls = chain.rpcUrls ?? [];
+    if (!Array.isArray(rpcUrls)) {
+        throw new DeploymentConfigError(
+            `${path}.rpcUrls`,
+            'must be a list of URLs'
+        );
+    }
+
+    return {
+        name: expectString(chain.name, `${path}.name`),
+        wormholeChain,
+        evmChainId: Number(evmChainId),
+        role,
+        priceFeed: priceFeed as Address | undefined,
+        rpcUrls: rpcUrls.map((url, i) =>
+            expectString(url, `${path}.rpcUrls[${i}]`)
+        ),
+        wsUrl: optionalString(chain.wsUrl, `${path}.wsUrl`),
+        nativeCurrency: parseNativeCurrency(
+            chain.nativeCurrency,
+            `${path}.nativeCurrency`
+        ),
+        gas: parseGasSettings(chain.gas, `${path}.gas`),
+    };
+}
+
+function parseProfile(value: unknown, path: string): DeploymentProfile {
+    const chainsPath = `${path}.chains`;
+    const entries = Object.entries(
+        expectObject(expectObject(value, path).chains, chainsPath)
+    );
+
+    const chains: Record<string, DeploymentChain> = {};
+    for (const [key, chain] of entries) {
+        if (!CHAIN_KEY_PATTERN.test(key)) {
+            throw new DeploymentConfigError(
+                `${chainsPath}.${key}`,
+                'chain keys must be camelCase, e.g. baseSepolia'
+            );
+        }
+        chains[key] = parseChain(chain, `${chainsPath}.${key}`);
+    }
+
+    const sources = Object.values(chains).filter((c) => c.role === 'source');
+    if (sources.length !== 1) {
+        throw new DeploymentConfigError(
+            chainsPath,
+            `must have exactly one source chain, found ${sources.length}`
+        );
+    }
+    if (sources.length === entries.length) {
+        throw new DeploymentConfigError(
+            chainsPath,
+            'must have at least one destination chain'
+        );
+    }
+
+    const evmChainIds = Object.values(chains).map((c) => c.evmChainId);
+    const duplicate = evmChainIds.find(
+        (id, i) => evmChainIds.indexOf(id) !== i
+    );
+    if (duplicate !== undefined) {
+        throw new DeploymentConfigError(
+            chainsPath,
+            `EVM chain ${duplicate} is listed more than once`
+        );
+    }
+
+    return { chains };
+}
+
+/**
+ * Parse and validate a deployment file's contents
+ */
+export function parseDeploymentFile(
+    contents: string,
+    format: DeploymentFormat
+): DeploymentFile {
+    let raw: unknown;
+    try {
+        // The failsafe schema keeps every scalar a string, so unquoted
+        // addresses are not read as hex numbers
+        raw =
+            format === 'json'
+                ? JSON.parse(contents)
+                : parseYaml(contents, { schema: 'failsafe' });
+    } catch (error) {
+        throw new DeploymentConfigError(
+            undefined,
+            `Deployment file is not valid ${format.toUpperCase()}: ${(error as Error).message}`,
+            error
+        );
+    }
+
+    const file = expectObject(raw, '(root)');
+    const networks = expectObject(file.networks, 'networks');
+
+    const defaultNetwork = optionalString(
+        file.defaultNetwork,
+        'defaultNetwork'
+    );
+    if (defaultNetwork !== undefined && !isNetwork(defaultNetwork)) {
+        throw new DeploymentConfigError(
+            'defaultNetwork',
+            'must be Mainnet, Testnet or Devnet'
+        );
+    }
+
+    const profiles: DeploymentFile['networks'] = {};
+    for (const [network, profile] of Object.entries(networks)) {
+        if (!isNetwork(network)) {
+            throw new DeploymentConfigError(
+                `networks.${network}`,
+                'network must be Mainnet, Testnet or Devnet'
+            );
+        }
+        profiles[network] = parseProfile(profile, `networks.${network}`);
+    }
+
+    return { defaultNetwork, networks: profiles };
+}
+
+/**
+ * Read a deployment file; .json files are parsed as JSON, anything else as YAML
+ */
+export function loadDeploymentFile(path: string): DeploymentFile {
+    let contents: string;
+    try {
+        contents = readFileSync(path, 'utf8');
+    } catch (error) {
+        throw new DeploymentConfigError(
+            undefined,
+            `Cannot read deployment file ${path}`,
+            error
+        );
+    }
+    return parseDeploymentFile(
+        contents,
+        extname(path).toLowerCase() === '.json' ? 'json' : 'yaml'
+    );
+}
+
+/**
+ * The profile for a network (default: the file's defaultNetwork, then Testnet)
+ */
+export function selectDeploymentProfile(
+    file: DeploymentFile,
+    network?: string
+): { network: Network; profile: DeploymentProfile } {
+    const selected = network || file.defaultNetwork || 'Testnet';
+    if (!isNetwork(selected)) {
+        throw new DeploymentConfigError(
+            undefined,
+            `NETWORK must be Mainnet, Testnet or Devnet, got ${selected}`
+        );
+    }
+    const profile = file.networks[selected];
+    if (!profile) {
+        throw new DeploymentConfigError(
+            'networks',
+            `no ${selected} profile (available: ${
+                Object.keys(file.networks).join(', ') || 'none'
+            })`
+        );
+    }
+    return { network: selected, profile };
+}
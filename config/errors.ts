@@ -0,0 +1,18 @@
+/**
+ * Errors raised while loading configuration
+ * Re-exported from ts-lib/errors with the other typed errors
+ */
+
+/**
+ * The deployment file is missing, unreadable or does not match the schema
+ */
+export class DeploymentConfigError extends Error {
+    /** Path of the offending value, e.g. networks.Testnet.chains.sepolia.role */
+    readonly path: string | undefined;
+
+    constructor(path: string | undefined, message: string, cause?: unknown) {
+        super(path ? `${path}: ${message}` : message, { cause });
+        this.name = 'DeploymentConfigError';
+        this.path = path;
+    }
+}
@@ -5,68 +5,140 @@
 
 import { config as dotenvConfig } from 'dotenv';
 import { resolve } from 'path';
-import {
-    toChainId,
-    type Chain,
-    type Network,
-} from '@wormhole-foundation/sdk-base';
+import { toChainId, type Network } from '@wormhole-foundation/sdk-base';
 import type { Address, Hex } from 'viem';
-import type { ChainConfig } from './types';
+import type { ChainConfig, SignerConfig } from './types';
+import { loadDeploymentFile, selectDeploymentProfile } from './deployment';
 
 // Load environment variables from root .env
 dotenvConfig({ path: resolve(process.cwd(), '.env') });
 
+/**
+ * RPC URLs from a comma-separated environment variable, or the default
+ */
+function rpcUrlsFromEnv(value: string | undefined, defaultUrls: string[]) {
+    const urls = (value ?? '')
+        .split(',')
+        .map((url) => url.trim())
+        .filter(Boolean);
+    return urls.length > 0 ? urls : defaultUrls;
+}
+
+/**
+ * Environment variable suffix for a chain key
+ * sepolia -> SEPOLIA, baseSepolia -> BASE_SEPOLIA
+ */
+function envKeyFor(key: string): string {
+    return key.replace(/([A-Z])/g, '_$1').toUpperCase();
+}
+
+/**
+ * Signer from environment variables, checked in order:
+ * KEYSTORE_X (+ KEYSTORE_PASSWORD_X), MNEMONIC_X (+ MNEMONIC_PATH_X),
+ * REMOTE_SIGNER_URL_X (+ REMOTE_SIGNER_ADDRESS_X), PRIVATE_KEY_X
+ */
+function signerFromEnv(envKey: string): SignerConfig | undefined {
+    const env = (name: string) => process.env[`${name}_${envKey}`] || undefined;
+
+    const keystore = env('KEYSTORE');
+    if (keystore) {
+        return {
+            type: 'keystore',
+            path: resolve(process.cwd(), keystore),
+            password: env('KEYSTORE_PASSWORD') ?? '',
+        };
+    }
+    const mnemonic = env('MNEMONIC');
+    if (mnemonic) {
+        return {
+            type: 'mnemonic',
+            mnemonic,
+            path: env('MNEMONIC_PATH') as `m/44'/60'/${string}` | undefined,
+        };
+    }
+    const remoteUrl = env('REMOTE_SIGNER_URL');
+    if (remoteUrl) {
+        return {
+            type: 'remote',
+            url: remoteUrl,
+            address: env('REMOTE_SIGNER_ADDRESS') as Address,
+        };
+    }
+    const privateKey = env('PRIVATE_KEY');
+    return privateKey
+        ? { type: 'privateKey', privateKey: privateKey as Hex }
+        : undefined;
+}
+
+/**
+ * Deployment file in use (DEPLOYMENT_FILE, or config/deployments.yaml)
+ */
+export const DEPLOYMENT_FILE = resolve(
+    process.cwd(),
+    process.env.DEPLOYMENT_FILE || 'config/deployments.yaml'
+);
+
+const deployment = selectDeploymentProfile(
+    loadDeploymentFile(DEPLOYMENT_FILE),
+    process.env.NETWORK
+);
+
+/** Network of the selected deployment profile */
+export const NETWORK: Network = deployment.network;
+
 /**
  * Master chain configuration - single source of truth
- * Add new chains here and they'll be available everywhere
+ * Built from the selected deployment profile, with environment overrides
  */
-export const CHAINS = {
-    sepolia: {
-        name: 'Sepolia',
-        evmChainId: 11155111,
-        wormholeChain: 'Sepolia' as Chain,
-        wormholeChainId: 10002,
-        rpcUrl:
-            process.env.SEPOLIA_RPC_URL ||
-            'https://ethereum-sepolia-rpc.publicnode.com',
-        isSource: true,
-    },
-    baseSepolia: {
-        name: 'Base Sepolia',
-        evmChainId: 84532,
-        wormholeChain: 'BaseSepolia' as Chain,
-        wormholeChainId: 10004,
-        rpcUrl: process.env.BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org',
-        isSource: false,
-    },
-    polygonAmoy: {
-        name: 'Polygon Amoy',
-        evmChainId: 80002,
-        wormholeChain: 'PolygonSepolia' as Chain, // Polygon Amoy uses PolygonSepolia in SDK
-        wormholeChainId: 10007,
-        rpcUrl:
-            process.env.POLYGON_AMOY_RPC_URL ||
-            'https://rpc-amoy.polygon.technology',
-        isSource: false,
-    },
-} as const;
-
-export type ChainKey = keyof typeof CHAINS;
+export const CHAINS = Object.fromEntries(
+    Object.entries(deployment.profile.chains).map(([key, chain]) => {
+        const envKey = envKeyFor(key);
+        return [
+            key,
+            {
+                name: chain.name,
+                evmChainId: chain.evmChainId,
+                wormholeChain: chain.wormholeChain,
+                wormholeChainId: toChainId(chain.wormholeChain),
+                rpcUrls: rpcUrlsFromEnv(
+                    process.env[`${envKey}_RPC_URL`],
+                    chain.rpcUrls
+                ),
+                wsUrl: process.env[`${envKey}_WS_URL`] || chain.wsUrl,
+                priceFeedAddress: (process.env[`PRICE_FEED_${envKey}`] ||
+                    chain.priceFeed) as Address | undefined,
+                nativeCurrency: chain.nativeCurrency,
+                gas: chain.gas,
+                isSource: chain.role === 'source',
+            },
+        ];
+    })
+);
+
+/** Chain key in the deployment file, e.g. baseSepolia */
+export type ChainKey = string;
 
 /**
  * Get chain config with environment-specific values
  */
 function getChainConfig(key: ChainKey): ChainConfig {
     const chain = CHAINS[key];
-    const envKey = key.replace(/([A-Z])/g, '_$1').toUpperCase(); // sepolia -> SEPOLIA, baseSepolia -> BASE_SEPOLIA
+    const envKey = envKeyFor(key);
 
     return {
         chain: chain.wormholeChain,
-        network: 'Testnet' as Network,
-        rpcUrl: chain.rpcUrl,
-        privateKey: process.env[`PRIVATE_KEY_${envKey}`] as Hex,
-        priceFeedAddress: process.env[`PRICE_FEED_${envKey}`] as Address,
-        wormholeChainId: toChainId(chain.wormholeChain),
+        network: NETWORK,
+        rpcUrl: chain.rpcUrls[0],
+        rpcUrls: chain.rpcUrls,
+        wsUrl: chain.wsUrl,
+        privateKey: process.env[`PRIVATE_KEY_${envKey}`] as Hex | undefined,
+        signer: signerFromEnv(envKey),
+        priceFeedAddress: chain.priceFeedAddress as Address,
+        wormholeChainId: chain.wormholeChainId,
+        evmChainId: chain.evmChainId,
+        name: chain.name,
+        nativeCurrency: chain.nativeCurrency,
+        gas: chain.gas,
     };
 }
 
@@ -77,26 +149,63 @@ export const config = Object.fromEntries(
     Object.keys(CHAINS).map((key) => [key, getChainConfig(key as ChainKey)])
 ) as Record<ChainKey, ChainConfig>;
 
+/**
+ * Executor quoter addresses trusted to sign quotes
+ * Comma-separated in EXECUTOR_TRUSTED_QUOTERS; unset or empty disables local verification
+ */
+const trustedQuoters = (process.env.EXECUTOR_TRUSTED_QUOTERS || '')
+    .split(',')
+    .map((address) => address.trim() as Address)
+    .filter(Boolean);
+export const TRUSTED_QUOTERS =
+    trustedQuoters.length > 0 ? trustedQuoters : undefined;
+
 /**
  * Validate required environment variables are set
  */
 export function validateConfig() {
-    const requiredVars = Object.keys(CHAINS).flatMap((key) => {
-        const envKey = key.replace(/([A-Z])/g, '_$1').toUpperCase();
-        return [`PRIVATE_KEY_${envKey}`, `PRICE_FEED_${envKey}`];
+    const missing = CHAIN_KEYS.flatMap((key) => {
+        const envKey = envKeyFor(key);
+        const vars = CHAINS[key].priceFeedAddress
+            ? []
+            : [`PRICE_FEED_${envKey} (or priceFeed in the deployment file)`];
+        if (!signerFromEnv(envKey)) {
+            vars.push(
+                `PRIVATE_KEY_${envKey} (or KEYSTORE_${envKey}, MNEMONIC_${envKey}, REMOTE_SIGNER_URL_${envKey})`
+            );
+        }
+        if (
+            process.env[`REMOTE_SIGNER_URL_${envKey}`] &&
+            !process.env[`REMOTE_SIGNER_ADDRESS_${envKey}`]
+        ) {
+            vars.push(`REMOTE_SIGNER_ADDRESS_${envKey}`);
+        }
+        return vars;
     });
 
-    const missing = requiredVars.filter((v) => !process.env[v]);
-
     if (missing.length > 0) {
         throw new Error(
-            `Missing required environment variables: ${missing.join(', ')}\n` +
+            `Missing required ${NETWORK} configuration: ${missing.join(', ')}\n` +
                 'Please copy .env.example to .env and fill in the values.'
         );
     }
 }
 
-export type { ChainConfig } from './types';
+export type {
+    ChainConfig,
+    ChainGasSettings,
+    ChainRole,
+    DeploymentChain,
+    DeploymentFile,
+    DeploymentProfile,
+    NativeCurrency,
+} from './types';
+
+export {
+    loadDeploymentFile,
+    parseDeploymentFile,
+    selectDeploymentProfile,
+} from './deployment';
 
 // Re-export relay utilities
 export {
@@ -104,7 +213,6 @@ export {
     DEFAULT_MSG_VALUE,
     EXECUTOR_API_URLS,
     getExecutorApiUrl,
-    createRelayInstructions,
     calculateTotalCost,
     type NetworkType,
 } from './relay';
@@ -139,9 +247,12 @@ export const WORMHOLE_CHAIN_IDS: Record<number, number> = Object.fromEntries(
     CHAIN_KEYS.map((k) => [CHAINS[k].evmChainId, CHAINS[k].wormholeChainId])
 );
 
-/** RPC URL by EVM chain ID */
+/** Preferred RPC URL by EVM chain ID (chains using the SDK default are left out) */
 export const RPC_URLS: Record<number, string> = Object.fromEntries(
-    CHAIN_KEYS.map((k) => [CHAINS[k].evmChainId, CHAINS[k].rpcUrl])
+    CHAIN_KEYS.filter((k) => CHAINS[k].rpcUrls.length > 0).map((k) => [
+        CHAINS[k].evmChainId,
+        CHAINS[k].rpcUrls[0],
+    ])
 );
 
 /** All EVM chain IDs */
@@ -1,10 +1,9 @@
 /**
  * Relay configuration and utilities for Wormhole Executor
  * Browser-compatible - no SDK imports with side effects
+ * The relay instructions codec lives in ts-lib/relay.ts
  */
 
-import type { Hex } from 'viem';
-
 /**
  * Default gas limit for receiving messages on the target chain
  * Based on successful test runs for simple message delivery
@@ -30,32 +29,12 @@ export type NetworkType = keyof typeof EXECUTOR_API_URLS;
 
 /**
  * Get the Executor API URL for a network (browser-compatible, no SDK import)
+ * EXECUTOR_API_URL overrides every network, e.g. to use a local mock executor
  */
 export function getExecutorApiUrl(network: NetworkType = 'Testnet'): string {
-    return EXECUTOR_API_URLS[network];
-}
-
-/**
- * Create relay instructions for the Executor quote request
- *
- * Relay instructions tell the Executor:
- * - How much gas to provide when calling _executeVaa on the target chain
- * - How much native token (msg.value) to forward (typically 0 for this use case)
- *
- * Format: 0x01 (version byte) + uint128 gasLimit (16 bytes) + uint128 msgValue (16 bytes)
- */
-export function createRelayInstructions(
-    gasLimit: bigint = DEFAULT_GAS_LIMIT,
-    msgValue: bigint = DEFAULT_MSG_VALUE
-): Hex {
-    // Version byte 0x01 for relay instructions format
-    const version = '01';
-
-    // Encode as uint128 (16 bytes each, big-endian)
-    const gasLimitHex = gasLimit.toString(16).padStart(32, '0');
-    const msgValueHex = msgValue.toString(16).padStart(32, '0');
-
-    return ('0x' + version + gasLimitHex + msgValueHex) as Hex;
+    const override =
+        typeof process !== 'undefined' ? process.env.EXECUTOR_API_URL : undefined;
+    return override || EXECUTOR_API_URLS[network];
 }
 
 /**
@@ -3,17 +3,121 @@
  */
 
 import type { Network, Chain } from '@wormhole-foundation/sdk-base';
-import type { Hash, TransactionReceipt, Address, Hex } from 'viem';
+import type {
+    Hash,
+    TransactionReceipt,
+    Address,
+    Hex,
+    PublicClient,
+    WalletClient,
+} from 'viem';
 
 export interface ChainConfig {
     chain: Chain;
     network: Network;
+    /** RPC URL, or several comma-separated */
     rpcUrl?: string;
-    privateKey: Hex;
+    /** RPC URLs in order of preference (takes precedence over rpcUrl) */
+    rpcUrls?: string[];
+    /** WebSocket RPC URL, used for event subscriptions */
+    wsUrl?: string;
+    /** Plaintext key; prefer `signer` to keep keys out of environment files */
+    privateKey?: Hex;
+    /** Account that signs transactions (takes precedence over privateKey) */
+    signer?: SignerConfig;
     priceFeedAddress: Address;
     wormholeChainId: number;
+    /** EVM chain ID, for chains the Wormhole SDK has no EVM chain ID for */
+    evmChainId?: number;
+    /** Display name, used when the chain is not in viem's catalogue */
+    name?: string;
+    /** Native currency, used when the chain is not in viem's catalogue (default ETH) */
+    nativeCurrency?: NativeCurrency;
+    /** Gas settings from the deployment file */
+    gas?: ChainGasSettings;
 }
 
+export interface NativeCurrency {
+    name: string;
+    symbol: string;
+    decimals: number;
+}
+
+/** Whether a chain sends price updates or receives them */
+export type ChainRole = 'source' | 'destination';
+
+/**
+ * Per-chain gas settings
+ */
+export interface ChainGasSettings {
+    /** Fixed delivery gas limit on this destination instead of estimating it */
+    gasLimit?: bigint;
+    /** Extra gas on top of the delivery estimate, in basis points */
+    safetyMarginBps?: number;
+    /** Never bid more than this maxFeePerGas for transactions on this chain */
+    maxFeePerGas?: bigint;
+}
+
+/**
+ * One chain of a deployment profile
+ */
+export interface DeploymentChain {
+    name: string;
+    /** Wormhole SDK chain name, e.g. BaseSepolia */
+    wormholeChain: Chain;
+    evmChainId: number;
+    role: ChainRole;
+    /** PriceFeedSender (source) or PriceFeedReceiver (destination) address */
+    priceFeed?: Address;
+    /** RPC URLs in order of preference (default: the SDK's) */
+    rpcUrls: string[];
+    wsUrl?: string;
+    nativeCurrency?: NativeCurrency;
+    gas?: ChainGasSettings;
+}
+
+/**
+ * The chains deployed on one network, by config key (e.g. baseSepolia)
+ */
+export interface DeploymentProfile {
+    chains: Record<string, DeploymentChain>;
+}
+
+/**
+ * Deployment file: a profile per network
+ */
+export interface DeploymentFile {
+    /** Profile used when NETWORK is not set (default Testnet) */
+    defaultNetwork?: Network;
+    networks: Partial<Record<Network, DeploymentProfile>>;
+}
+
+/**
+ * Where the account that signs transactions comes from
+ * - privateKey: a plaintext hex key
+ * - keystore: an encrypted JSON keystore (Web3 Secret Storage v3)
+ * - mnemonic: a BIP-39 phrase and derivation path (default m/44'/60'/0'/0/0)
+ * - remote: a JSON-RPC signer that implements eth_signTransaction
+ */
+export type SignerConfig =
+    | { type: 'privateKey'; privateKey: Hex }
+    | { type: 'keystore'; path: string; password: string }
+    | {
+          type: 'mnemonic';
+          mnemonic: string;
+          path?: `m/44'/60'/${string}`;
+          passphrase?: string;
+      }
+    | {
+          type: 'remote';
+          url: string;
+          address: Address;
+          /** Extra HTTP headers, e.g. authorization */
+          headers?: Record<string, string>;
+      };
+
+export type SignerType = SignerConfig['type'];
+
 export interface ExecutorQuoteParams {
     srcChain: number;
     dstChain: number;
@@ -25,6 +129,94 @@ export interface ExecutorQuote {
     estimatedCost: bigint;
 }
 
+/**
+ * Per-destination outcome of a multi-chain quote request
+ */
+export type ChainQuoteResult =
+    | { chainId: number; ok: true; quote: ExecutorQuote; attempts: number }
+    | { chainId: number; ok: false; error: Error; attempts: number };
+
+/**
+ * Fields of an EQ01 signed quote
+ */
+export interface DecodedSignedQuote {
+    prefix: 'EQ01';
+    quoterAddress: Address;
+    payeeAddress: Hex;
+    srcChain: number;
+    dstChain: number;
+    expiryTime: Date;
+    baseFee: bigint;
+    dstGasPrice: bigint;
+    srcPrice: bigint;
+    dstPrice: bigint;
+    signature: Hex;
+}
+
+export interface QuoteVerificationOptions {
+    /** Quoter addresses whose signatures are accepted */
+    trustedQuoters: readonly Address[];
+    /** Expected Wormhole source chain ID */
+    srcChain?: number;
+    /** Expected Wormhole destination chain ID */
+    dstChain?: number;
+    /** Reference time for the expiry check (default: now) */
+    now?: Date;
+}
+
+export interface QuoteRetryOptions {
+    /** Total attempts per destination, including the first (default 3) */
+    maxAttempts?: number;
+    /** Delay before the first retry; doubled on every further retry (default 500ms) */
+    initialDelayMs?: number;
+    /** Upper bound for the backoff delay (default 5000ms) */
+    maxDelayMs?: number;
+}
+
+export interface QuoteCacheOptions {
+    /** Fetch a new quote when the cached one expires within this window (default 30s) */
+    refreshMarginMs?: number;
+    /** Quote source (default: getExecutorQuote) */
+    fetchQuote?: (
+        params: ExecutorQuoteParams,
+        network: Network
+    ) => Promise<ExecutorQuote>;
+    /** Clock used for expiry checks (default: Date.now) */
+    now?: () => number;
+}
+
+/**
+ * Cache of Executor quotes keyed by route and relay instructions
+ */
+export interface QuoteCache {
+    /**
+     * Return a quote that is valid for at least the refresh margin
+     * With `client`, quotes are fetched from it and cached apart from others
+     * Throws SignedQuoteError if a fetched quote is expired or unreadable
+     */
+    getQuote(
+        params: ExecutorQuoteParams,
+        network?: Network,
+        client?: ExecutorClient
+    ): Promise<ExecutorQuote>;
+    /** Drop one cached quote, or all of them */
+    invalidate(
+        params?: ExecutorQuoteParams,
+        network?: Network,
+        client?: ExecutorClient
+    ): void;
+    readonly size: number;
+}
+
+export interface MultiChainQuoteOptions extends QuoteRetryOptions {
+    /** Verify every quote against these quoters; quotes that fail are not retried */
+    trustedQuoters?: readonly Address[];
+    /** Serve quotes from this cache; null fetches fresh quotes every time */
+    cache?: QuoteCache | null;
+    /** Executor to talk to (default: the HTTP API for the network) */
+    client?: ExecutorClient;
+}
+
 export interface ExecutorCapabilities {
     requestPrefixes: string[];
     gasDropOffLimit?: string;
@@ -32,10 +224,751 @@ export interface ExecutorCapabilities {
     maxMsgValue?: string;
 }
 
+/**
+ * Price update carried in the VAA payload: abi.encode(string[], uint256[])
+ */
+export interface PricePayload {
+    symbols: string[];
+    prices: bigint[];
+}
+
+/**
+ * A guardian's signature on a VAA: r (32) | s (32) | v (1, 0 or 1)
+ */
+export interface VaaSignature {
+    guardianIndex: number;
+    signature: Hex;
+}
+
+/**
+ * Fields of a version 1 VAA
+ */
+export interface ParsedVaa {
+    version: number;
+    guardianSetIndex: number;
+    signatures: VaaSignature[];
+    timestamp: Date;
+    nonce: number;
+    emitterChain: number;
+    /** Emitter as a Wormhole universal address */
+    emitterAddress: Hex;
+    sequence: bigint;
+    consistencyLevel: number;
+    payload: Hex;
+    /** Signed body: everything after the signatures */
+    body: Hex;
+    /** keccak256(keccak256(body)), the digest the guardians sign */
+    hash: Hex;
+}
+
+/**
+ * A VAA carrying a price update, with its payload decoded
+ */
+export interface PriceVaa extends ParsedVaa {
+    prices: PricePayload;
+}
+
+export interface GuardianSet {
+    index: number;
+    keys: Address[];
+    /** Unix seconds after which the set is no longer valid (0 = current set) */
+    expirationTime: number;
+}
+
+export interface VaaVerificationOptions {
+    guardianSet: GuardianSet;
+    /** Chain the VAA must be emitted from */
+    emitterChain?: number;
+    /** Contract the VAA must be emitted by (EVM or universal address) */
+    emitterAddress?: Hex;
+    now?: Date;
+}
+
+/**
+ * A single Executor relay instruction
+ * Gas instructions add up; a drop-off sends native tokens to `recipient`
+ */
+export type RelayInstruction =
+    | { type: 'GasInstruction'; gasLimit: bigint; msgValue: bigint }
+    | { type: 'GasDropOffInstruction'; dropOff: bigint; recipient: Hex };
+
+/**
+ * Options for estimating the destination gas limit of a price update
+ */
+export interface GasEstimateOptions {
+    /** Extra gas on top of the estimate, in basis points (default 2500 = 25%) */
+    safetyMarginBps?: number;
+    /** Raise the fixed overhead from past deliveries' gasUsed (default true) */
+    useHistory?: boolean;
+    /** Blocks to search back for past deliveries (default 5000) */
+    historyBlocks?: bigint;
+}
+
+/**
+ * Estimated gas limit for delivering a price update to one destination
+ */
+export interface DestinationGasEstimate {
+    chainId: number;
+    /** Gas limit to request from the Executor, including the safety margin */
+    gasLimit: bigint;
+    /** Estimated receiver gas before the safety margin */
+    estimatedGas: bigint;
+    /** Whether the fixed overhead came from the model or past deliveries */
+    source: 'model' | 'history';
+}
+
+export interface SendPriceUpdateOptions extends MultiChainQuoteOptions {
+    /** Throw instead of skipping destinations whose quote could not be fetched */
+    requireAllDestinations?: boolean;
+    /** Skip the capabilities preflight check before quoting */
+    skipPreflight?: boolean;
+    /** Fixed gas limit for every destination instead of estimating it */
+    gasLimit?: bigint;
+    gasEstimate?: GasEstimateOptions;
+    /** Simulate updatePrices with the real quotes and value, without sending */
+    dryRun?: boolean;
+    /** Send through this manager (default: the shared manager for the sender account) */
+    transactionManager?: TransactionManager;
+    /**
+     * Split the update into several transactions so each delivery stays under
+     * this gas limit (default: the smallest executor maxGasLimit of the
+     * destinations, and `gasLimit` if set)
+     */
+    maxBatchGasLimit?: bigint;
+}
+
+export interface RedeliveryOptions {
+    /** Gas limit for executeVAAv1 (default: estimated by the node) */
+    gasLimit?: bigint;
+    /** Verify the VAA against the destination's guardian set first (default true) */
+    verify?: boolean;
+    /** How long to wait for the signed VAA (default 60000) */
+    vaaTimeoutMs?: number;
+    /** Simulate executeVAAv1 without sending */
+    dryRun?: boolean;
+    /** Send through this manager (default: the shared manager for the destination account) */
+    transactionManager?: TransactionManager;
+}
+
+/**
+ * A price update message executed on its destination by hand
+ */
+export interface RedeliveryResult {
+    chainId: number;
+    sequence: bigint;
+    vaa: PriceVaa;
+    /** Gas limit sent (estimated on a dry run) */
+    gas: bigint;
+    /** Undefined on a dry run */
+    hash?: Hash;
+    receipt: TransactionReceipt | null;
+}
+
+/**
+ * A transaction for the transaction manager to send, built by the caller
+ * The manager calls the builder again when the calldata has expired.
+ */
+export interface PreparedTransaction<T = undefined> {
+    to: Address;
+    data: Hex;
+    value?: bigint;
+    /** Gas limit (default: estimated) */
+    gas?: bigint;
+    /** Time (ms since epoch) after which the calldata is no longer valid, e.g. a quote expiry */
+    expiresAt?: number;
+    /** Caller data returned with the transaction that was mined */
+    context: T;
+}
+
+/**
+ * A transaction the manager has broadcast and not yet seen mined
+ */
+export interface PendingTransaction {
+    nonce: number;
+    /** Every hash broadcast for this nonce, the latest replacement last */
+    hashes: Hash[];
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+    /** Time (ms since epoch) the latest hash was broadcast */
+    sentAt: number;
+    replacements: number;
+}
+
+export interface ManagedTransactionResult<T = undefined> {
+    /** Hash of the transaction that was mined (may be a replacement) */
+    hash: Hash;
+    receipt: TransactionReceipt;
+    nonce: number;
+    replacements: number;
+    /** The prepared transaction that was mined */
+    prepared: PreparedTransaction<T>;
+}
+
+export interface TransactionManagerOptions {
+    /** Replace a transaction still pending after this long (default 60s) */
+    replaceAfterMs?: number;
+    /** Fee increase per replacement, in basis points (default 1250 = 12.5%) */
+    feeBumpBps?: number;
+    /** Give up replacing after this many replacements (default 5) */
+    maxReplacements?: number;
+    /** Never bid more than this maxFeePerGas */
+    maxFeePerGasCap?: bigint;
+    /** Rebuild the transaction when it expires within this margin (default 30s) */
+    expiryMarginMs?: number;
+    pollIntervalMs?: number;
+    /** Give up waiting for a transaction after this long (default 10 min) */
+    timeoutMs?: number;
+}
+
+/**
+ * Sends transactions from one account with locally assigned nonces
+ */
+export interface TransactionManager {
+    readonly address: Address;
+    /**
+     * Build, send and wait for a transaction, replacing it with higher fees
+     * while it is stuck
+     */
+    sendTransaction<T>(
+        prepare: () => Promise<PreparedTransaction<T>>
+    ): Promise<ManagedTransactionResult<T>>;
+    /** Transactions broadcast and not yet mined, by nonce */
+    readonly pending: readonly PendingTransaction[];
+    /** Forget the local nonce and read it from the chain on the next send */
+    resync(): void;
+}
+
+/**
+ * The updatePrices call a dry run would have sent
+ */
+export interface PriceUpdateSimulation {
+    to: Address;
+    data: Hex;
+    value: bigint;
+    gas: bigint;
+}
+
+/**
+ * Relay request parameters checked against Executor capabilities
+ */
+export interface RelayRequestCheck {
+    srcChain: number;
+    dstChain: number;
+    gasLimit: bigint;
+    msgValue?: bigint;
+    /** Gas drop-off to the recipient on the destination */
+    dropOff?: bigint;
+    /** Executor request prefix (default: ERV1) */
+    requestPrefix?: string;
+}
+
+/**
+ * Wormhole message published for one target chain of a price update
+ */
+export interface TargetChainMessage {
+    /** Target Wormhole chain ID */
+    chainId: number;
+    sequence: bigint;
+    /** Source Wormhole chain ID */
+    emitterChain: number;
+    /** Sender contract as a Wormhole universal address */
+    emitterAddress: Hex;
+    /** Core bridge LogMessagePublished data, if the log was found */
+    published?: {
+        nonce: number;
+        payload: Hex;
+        consistencyLevel: number;
+        logIndex: number;
+    };
+}
+
+/**
+ * One updatePrices transaction of a price update
+ */
+export interface PriceBatchResult {
+    /** Symbols sent in this transaction, in order */
+    symbols: string[];
+    receipt: TransactionReceipt | null;
+    hash: Hash | undefined;
+    /** One message per target chain of this transaction */
+    messages: TargetChainMessage[];
+    /** Set for dry runs */
+    simulation?: PriceUpdateSimulation;
+    /** Gas limit requested per destination Wormhole chain ID */
+    gasLimits: Record<number, bigint>;
+}
+
+/**
+ * Result of a price update, which may have been split into several
+ * transactions. `receipt`, `hash` and `simulation` are those of the first
+ * transaction; `batches` lists every transaction and `simulations` every
+ * simulated one.
+ */
 export interface SendPriceUpdateResult {
     receipt: TransactionReceipt | null;
     hash: Hash | undefined;
+    /** Sequence of the first target - see `messages` for every target */
     sequence: bigint | undefined;
+    /** One message per target chain and transaction, in the order they were published */
+    messages: TargetChainMessage[];
+    /** Set for dry runs (nothing is sent, so there is no receipt or hash) */
+    simulation?: PriceUpdateSimulation;
+    /** Set for dry runs: one simulation per transaction, in order */
+    simulations?: PriceUpdateSimulation[];
+    /** Destinations no transaction reached because preflight or quoting failed */
+    skippedDestinations: Array<{ chainId: number; error: Error }>;
+    /** Largest gas limit requested per destination Wormhole chain ID */
+    gasLimits: Record<number, bigint>;
+    /** Every updatePrices transaction, with the symbols it carried */
+    batches: PriceBatchResult[];
+}
+
+/**
+ * Raw relay record returned by the Executor status API (POST /v0/status/tx)
+ * Only the fields this library reads are typed
+ */
+export interface ExecutorStatusResponse {
+    id?: Hex;
+    txHash: string;
+    chainId: number;
+    status: string;
+    estimatedCost?: string;
+    failureCause?: string;
+    requestForExecution?: {
+        dstChain: number;
+        dstAddr?: Hex;
+        amtPaid?: string;
+    };
+    txs?: Array<{
+        txHash: string;
+        chainId: number;
+        blockNumber?: string;
+        blockTime?: string | null;
+        cost?: string;
+    }>;
+}
+
+/**
+ * Access to an Executor service: capabilities, quotes and relay status
+ * Implemented over HTTP for the real API and in memory for offline tests
+ */
+export interface ExecutorClient {
+    getCapabilities(): Promise<Record<number, ExecutorCapabilities>>;
+    getQuote(params: ExecutorQuoteParams): Promise<ExecutorQuote>;
+    getStatus(
+        txHash: string,
+        srcChain?: number
+    ): Promise<ExecutorStatusResponse[]>;
+}
+
+/**
+ * Executor relay status
+ * `executed` means the destination transaction was included, not that it
+ * succeeded - a reverted delivery is `executed` too
+ */
+export type RelayStatusKind =
+    | 'pending'
+    | 'submitted'
+    | 'executed'
+    | 'error'
+    | 'underpaid'
+    | 'aborted';
+
+interface RelayStatusBase {
+    /** Wormhole chain ID of the destination */
+    dstChain: number;
+    /** Source transaction the relay was requested in */
+    sourceTxHash: string;
+    /** Executor relay request ID, if reported */
+    requestId?: Hex;
+    /** Destination transactions seen so far */
+    destinationTxHashes: string[];
+    raw: ExecutorStatusResponse;
+}
+
+/**
+ * Typed status of one Executor relay (one destination of a source transaction)
+ */
+export type ExecutorRelayStatus =
+    | (RelayStatusBase & { status: 'pending' })
+    | (RelayStatusBase & { status: 'submitted' })
+    | (RelayStatusBase & { status: 'executed' })
+    | (RelayStatusBase & { status: 'error'; reason: string })
+    | (RelayStatusBase & { status: 'underpaid'; reason: string })
+    | (RelayStatusBase & { status: 'aborted'; reason: string });
+
+/**
+ * Snapshot emitted by the relay tracker whenever a destination changes state
+ */
+export interface RelayTrackerUpdate {
+    /** Latest status per destination Wormhole chain ID (undefined until seen) */
+    statuses: Record<number, ExecutorRelayStatus | undefined>;
+    /** Destinations whose status changed in this update */
+    changed: number[];
+    /** True once every destination has reached a final status */
+    done: boolean;
+}
+
+export interface RelayTrackerOptions {
+    /** Executor to poll (default: the HTTP API for the network) */
+    client?: ExecutorClient;
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Delivery state of one price update message on its destination
+ * - delivered: the receiver has consumed the message's sequence
+ * - pending: not consumed yet
+ * - failed: the Executor gave up on the relay, or its delivery reverted
+ */
+export type DeliveryStatusKind = 'delivered' | 'pending' | 'failed';
+
+export interface DestinationDelivery {
+    /** Destination Wormhole chain ID */
+    chainId: number;
+    /** Sequence of the message sent to this destination */
+    sequence?: bigint;
+    status: DeliveryStatusKind;
+    /** Destination transaction that executed the VAA, if it was found */
+    deliveryTxHash?: Hash;
+    deliveryBlockNumber?: bigint;
+    /** Seconds between the source and delivery blocks */
+    latencySeconds?: number;
+    /** Why the delivery failed */
+    reason?: string;
+}
+
+export interface DeliveryTrackerOptions {
+    /** Executor to ask about failed relays (default: the HTTP API for the network) */
+    client?: ExecutorClient;
+    /** Skip the Executor status API and only read destination state */
+    useExecutorStatus?: boolean;
+    /** Destination blocks searched for the delivery transaction (default 5000) */
+    lookbackBlocks?: bigint;
+    /** Longest wait between checks; a PricesReceived event starts one sooner (default 10000) */
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * How a receiver's stored price compares with the source
+ * - match: same price as the source
+ * - lagging: no price yet, or a price the source held before
+ * - differs: a price the source is not known to have held
+ */
+export type PriceConsistencyStatus = 'match' | 'lagging' | 'differs';
+
+export interface SymbolConsistency {
+    symbol: string;
+    /** Price stored on the source (PriceFeedSender) */
+    sourcePrice: bigint;
+    /** Stored price per receiver Wormhole chain ID */
+    prices: Record<number, bigint>;
+    /** Receiver Wormhole chain IDs by status */
+    matching: number[];
+    lagging: number[];
+    differing: number[];
+}
+
+export interface ConsistencyReport {
+    sourceChain: number;
+    /** Block each chain was read at, by Wormhole chain ID */
+    blockNumbers: Record<number, bigint>;
+    symbols: SymbolConsistency[];
+    /** Receivers that could not be read, left out of the comparison */
+    unreachable: Array<{ chainId: number; error: Error }>;
+    /** True if every receiver that could be read matches for every symbol */
+    consistent: boolean;
+}
+
+export interface ConsistencyCheckOptions {
+    /** Block to read the source at (default: latest); receivers use their latest block */
+    sourceBlockNumber?: bigint;
+    /**
+     * Source blocks searched for earlier LocalPricesStored prices, to tell a
+     * lagging receiver from a differing one (default 5000; 0n disables)
+     */
+    historyBlocks?: bigint;
+}
+
+/**
+ * Deployment checks run by the doctor
+ * - contract: the code at priceFeedAddress implements the expected ABI
+ * - peer: the peer registered for the other side is its universal address
+ * - role: the feeder account holds PRICE_FEED_ROLE on the sender
+ * - paused: the contract is not paused
+ * - route: the Executor advertises VAA v1 delivery from the source
+ */
+export type DoctorCheckKind = 'contract' | 'peer' | 'role' | 'paused' | 'route';
+
+export interface DoctorCheck {
+    kind: DoctorCheckKind;
+    /** Wormhole chain ID the check ran on */
+    chainId: number;
+    /** Wormhole chain ID of the other side, for peer and route checks */
+    remoteChainId?: number;
+    passed: boolean;
+    message: string;
+    /** Suggested fix for a failed check */
+    fix?: string;
+}
+
+export interface DoctorReport {
+    /** Checks in order: source first, then each receiver */
+    checks: DoctorCheck[];
+    /** True if every check passed */
+    healthy: boolean;
+}
+
+export interface DoctorOptions {
+    /** Account that must hold PRICE_FEED_ROLE (default: the source chain's signer) */
+    feeder?: Address;
+    /** Executor client for the route check (default: the HTTP client for the network) */
+    client?: ExecutorClient;
+    /**
+     * Update the route check sizes the delivery gas limit for, as
+     * sendPriceUpdate would (default: the gas limit sent without a payload)
+     */
+    payload?: PricePayload;
+    /** Fixed gas limit for every route, as passed to sendPriceUpdate */
+    gasLimit?: bigint;
+    gasEstimate?: GasEstimateOptions;
+}
+
+/**
+ * Fields shared by every indexed event
+ */
+interface IndexedEventBase {
+    /** Wormhole chain ID of the chain the event was emitted on */
+    chainId: number;
+    blockNumber: bigint;
+    blockHash: Hash;
+    transactionHash: Hash;
+    logIndex: number;
+    address: Address;
+}
+
+/**
+ * A price feed or core bridge event stored by the indexer
+ * `PricesReceived.sequence` is decoded from the delivery's executeVAAv1
+ * calldata, when the delivery called the receiver directly.
+ */
+export type IndexedEvent =
+    | (IndexedEventBase & {
+          eventName: 'LocalPricesStored';
+          args: { tokenNames: string[]; prices: bigint[] };
+      })
+    | (IndexedEventBase & {
+          eventName: 'PricesUpdated';
+          args: { count: bigint; targetChain: number; sequence: bigint };
+      })
+    | (IndexedEventBase & {
+          eventName: 'LogMessagePublished';
+          args: {
+              sender: Address;
+              sequence: bigint;
+              nonce: number;
+              payload: Hex;
+              consistencyLevel: number;
+          };
+      })
+    | (IndexedEventBase & {
+          eventName: 'PricesReceived';
+          args: {
+              count: bigint;
+              senderChain: number;
+              sender: Hex;
+              sequence?: bigint;
+          };
+      });
+
+export type IndexedEventName = IndexedEvent['eventName'];
+
+export interface IndexedEventFilter {
+    chainId?: number;
+    eventName?: IndexedEventName;
+    transactionHash?: Hash;
+    fromBlock?: bigint;
+    toBlock?: bigint;
+}
+
+/**
+ * Last block indexed on a chain
+ */
+export interface IndexerCursor {
+    blockNumber: bigint;
+    blockHash: Hash;
+}
+
+/**
+ * Storage behind the indexer; every write for one chain is atomic
+ */
+export interface IndexerStore {
+    getCursor(chainId: number): IndexerCursor | undefined;
+    /** Block hashes recorded for reorg detection, newest first */
+    getBlockHashes(chainId: number): IndexerCursor[];
+    /** Store events and block hashes and advance the cursor */
+    commit(
+        chainId: number,
+        batch: {
+            events: IndexedEvent[];
+            blocks: IndexerCursor[];
+            cursor: IndexerCursor;
+            /** Forget block hashes below this block */
+            pruneBlocksBefore?: bigint;
+        }
+    ): void;
+    /** Drop events and block hashes after `cursor` and move the cursor back to it */
+    rollback(chainId: number, cursor: IndexerCursor): void;
+    /** Events in chain, block and log order */
+    getEvents(filter?: IndexedEventFilter): IndexedEvent[];
+    close(): void;
+}
+
+export interface PriceFeedIndexerOptions {
+    store: IndexerStore;
+    /** Block to start from on a chain with no cursor (default: head - 5000) */
+    startBlocks?: Record<number, bigint>;
+    /** Blocks per getLogs request (default 2000) */
+    batchSize?: bigint;
+    /** Stay this many blocks behind the head (default 0) */
+    confirmations?: bigint;
+    /** Block hashes kept per chain for reorg detection (default 128) */
+    maxReorgDepth?: number;
+    /** Longest wait between passes; price feed events start one sooner (default 15000) */
+    pollIntervalMs?: number;
+}
+
+/**
+ * Follows price feed events on the source and every receiver into a store
+ */
+export interface PriceFeedIndexer {
+    readonly store: IndexerStore;
+    /** Index every chain up to its head (minus confirmations) once */
+    sync(): Promise<IndexerSyncResult[]>;
+    /** Sync repeatedly until the signal is aborted, reporting each pass */
+    run(
+        signal?: AbortSignal,
+        onSync?: (results: IndexerSyncResult[]) => void
+    ): Promise<void>;
+}
+
+/**
+ * Progress of one indexer pass over a chain
+ */
+export interface IndexerSyncResult {
+    chainId: number;
+    fromBlock: bigint;
+    toBlock: bigint;
+    events: number;
+    /** Block the chain was rolled back to after a reorg */
+    rolledBackTo?: bigint;
+    error?: Error;
+}
+
+/**
+ * A price update from the source with its messages and deliveries
+ */
+export interface IndexedPriceUpdate {
+    transactionHash: Hash;
+    blockNumber: bigint;
+    symbols: string[];
+    prices: bigint[];
+    targets: Array<{
+        chainId: number;
+        sequence: bigint;
+        /** Delivery on the target, if it has been indexed */
+        delivery?: { transactionHash: Hash; blockNumber: bigint };
+    }>;
+}
+
+/**
+ * Options for a client registry
+ */
+export interface ClientRegistryOptions {
+    /**
+     * Rank RPC URLs by latency and stability (default: false)
+     * The ranking pings cannot be stopped and keep the process alive
+     */
+    rank?: boolean;
+    /** How often each RPC URL is pinged for ranking (default: 10000) */
+    rankIntervalMs?: number;
+    /** Max requests per second sent to each RPC URL (default: unlimited) */
+    requestsPerSecond?: number;
+    /** Retries across all RPC URLs of a chain (default: 3) */
+    retryCount?: number;
+    /** Timeout per RPC request (default: 10000) */
+    timeoutMs?: number;
+}
+
+/**
+ * Memoized viem clients per chain
+ * A chain with several RPC URLs fails over between them.
+ */
+export interface ClientRegistry {
+    getPublicClient(chainConfig: ChainConfig): Promise<PublicClient>;
+    /** Wallet client for the chain config's signer */
+    getWalletClient(chainConfig: ChainConfig): Promise<WalletClient>;
+    /** RPC URLs used for the chain, after resolving SDK defaults */
+    getRpcUrls(chainConfig: ChainConfig): Promise<string[]>;
+    /** WebSocket client for the chain, undefined if it has no wsUrl */
+    getWebSocketClient(
+        chainConfig: ChainConfig
+    ): Promise<PublicClient | undefined>;
+    /** Drop every cached client */
+    clear(): void;
+    /** Drop every cached client and close its WebSocket connections */
+    dispose(): Promise<void>;
+}
+
+/**
+ * A price feed event delivered to a subscription
+ */
+export interface PriceFeedEvent<TArgs> {
+    /** Wormhole chain ID of the chain the event was emitted on */
+    chainId: number;
+    blockNumber: bigint;
+    blockHash: Hash;
+    transactionHash: Hash;
+    logIndex: number;
+    args: TArgs;
+}
+
+export type PricesReceivedEvent = PriceFeedEvent<{
+    count: bigint;
+    senderChain: number;
+    sender: Hex;
+}>;
+
+export type PricesUpdatedEvent = PriceFeedEvent<{
+    count: bigint;
+    targetChain: number;
+    sequence: bigint;
+}>;
+
+export type SubscriptionMode = 'websocket' | 'polling';
+
+export interface SubscriptionOptions {
+    /** Also deliver events from this block on (default: new events only) */
+    fromBlock?: bigint;
+    /** Force a mode; by default WebSocket is used when the chain has a wsUrl */
+    mode?: SubscriptionMode;
+    /** Polling interval right after a new block (default 1000) */
+    minPollIntervalMs?: number;
+    /** Polling interval after a run of blocks without news (default 15000) */
+    maxPollIntervalMs?: number;
+    /** RPC and handler errors; the subscription keeps running */
+    onError?: (error: Error) => void;
+    signal?: AbortSignal;
+}
+
+export interface Subscription {
+    /** Current mode; a failed WebSocket subscription falls back to polling */
+    readonly mode: SubscriptionMode;
+    unsubscribe(): void;
 }
 
 export interface VAAData {
@@ -0,0 +1,103 @@
+/**
+ * Cross-chain price consistency check
+ *
+ * Compares the prices stored on the source with every destination and exits
+ * non-zero if any destination lags, differs or cannot be read. Run it after
+ * an update, or on a schedule to catch missed relays.
+ *
+ * Usage: pnpm check:consistency [symbol ...] [--block <source block>]
+ */
+
+import { parseArgs } from 'node:util';
+import { formatUnits } from 'viem';
+import {
+    config,
+    CHAINS,
+    SOURCE_CHAIN_KEY,
+    DESTINATION_CHAIN_KEYS,
+} from '../config';
+import { checkConsistency } from '../ts-lib';
+
+const DEFAULT_SYMBOLS = ['bitcoin', 'ethereum'];
+
+// Prices are stored with 8 decimals
+const PRICE_DECIMALS = 8;
+
+function chainName(wormholeChainId: number): string {
+    return (
+        Object.values(CHAINS).find(
+            (chain) => chain.wormholeChainId === wormholeChainId
+        )?.name ?? String(wormholeChainId)
+    );
+}
+
+async function main() {
+    const { values, positionals: symbols } = parseArgs({
+        options: { block: { type: 'string' } },
+        allowPositionals: true,
+    });
+    if (values.block !== undefined && !/^\d+$/.test(values.block)) {
+        throw new Error(
+            'Usage: pnpm check:consistency [symbol ...] [--block <source block>]'
+        );
+    }
+    const sourceBlockNumber =
+        values.block !== undefined ? BigInt(values.block) : undefined;
+
+    const source = config[SOURCE_CHAIN_KEY];
+    const receivers = DESTINATION_CHAIN_KEYS.map((key) => config[key]);
+    const missing = [source, ...receivers].filter(
+        (chainConfig) => !chainConfig.priceFeedAddress
+    );
+    if (missing.length > 0) {
+        throw new Error(
+            `Missing price feed address for ${missing.map((c) => c.chain).join(', ')} - set PRICE_FEED_* in .env`
+        );
+    }
+
+    console.log('\n🔎 Cross-Chain Price Consistency');
+    console.log('='.repeat(60));
+
+    const report = await checkConsistency(
+        symbols.length > 0 ? symbols : DEFAULT_SYMBOLS,
+        { source, receivers },
+        { sourceBlockNumber }
+    );
+
+    for (const [chainId, blockNumber] of Object.entries(report.blockNumbers)) {
+        console.log(`  ${chainName(Number(chainId))} @ block ${blockNumber}`);
+    }
+    for (const { chainId, error } of report.unreachable) {
+        console.log(`❌ ${chainName(chainId)} unreachable: ${error.message}`);
+    }
+
+    for (const result of report.symbols) {
+        console.log(
+            `\n${result.symbol}: $${formatUnits(result.sourcePrice, PRICE_DECIMALS)} on ${chainName(report.sourceChain)}`
+        );
+        for (const [chainId, price] of Object.entries(result.prices)) {
+            const id = Number(chainId);
+            const icon = result.matching.includes(id)
+                ? '✅ match'
+                : result.lagging.includes(id)
+                  ? '⏳ lagging'
+                  : '❌ differs';
+            console.log(
+                `  ${icon.padEnd(11)} ${chainName(id)}: $${formatUnits(price, PRICE_DECIMALS)}`
+            );
+        }
+    }
+
+    console.log('\n' + '='.repeat(60));
+    if (report.consistent && report.unreachable.length === 0) {
+        console.log('✅ All chains consistent');
+    } else {
+        console.log('❌ Chains are not consistent');
+        process.exit(1);
+    }
+}
+
+main().catch((error) => {
+    console.error('\n❌ Consistency check failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,92 @@
+/**
+ * Deployment doctor
+ *
+ * Checks every chain in the selected deployment: the PriceFeed contract at
+ * each address, peers in both directions, the feeder's PRICE_FEED_ROLE,
+ * paused contracts and the Executor route to each destination. Prints a
+ * pass/fail report with a suggested fix per failed check and exits non-zero
+ * if anything failed.
+ *
+ * Usage: pnpm doctor [--feeder <address>]
+ */
+
+import { isAddress, type Address } from 'viem';
+import {
+    config,
+    CHAINS,
+    NETWORK,
+    SOURCE_CHAIN_KEY,
+    DESTINATION_CHAIN_KEYS,
+} from '../config';
+import { diagnoseDeployment, type DoctorCheck } from '../ts-lib';
+
+function chainName(wormholeChainId: number): string {
+    return (
+        Object.values(CHAINS).find(
+            (chain) => chain.wormholeChainId === wormholeChainId
+        )?.name ?? String(wormholeChainId)
+    );
+}
+
+function describe(check: DoctorCheck): string {
+    switch (check.kind) {
+        case 'contract':
+            return 'Contract';
+        case 'paused':
+            return 'Not paused';
+        case 'role':
+            return 'Feeder role';
+        case 'peer':
+            return `Peer -> ${chainName(check.remoteChainId!)}`;
+        case 'route':
+            return `Executor route from ${chainName(check.remoteChainId!)}`;
+    }
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const feederIndex = args.indexOf('--feeder');
+    const feeder = feederIndex >= 0 ? args[feederIndex + 1] : undefined;
+    if (feeder !== undefined && !isAddress(feeder)) {
+        throw new Error('Usage: pnpm doctor [--feeder <address>]');
+    }
+
+    const source = config[SOURCE_CHAIN_KEY];
+    const receivers = DESTINATION_CHAIN_KEYS.map((key) => config[key]);
+
+    console.log(`\n🩺 Deployment Doctor (${NETWORK})`);
+    console.log('='.repeat(60));
+
+    const report = await diagnoseDeployment(
+        { source, receivers },
+        { feeder: feeder as Address | undefined }
+    );
+
+    let currentChain: number | undefined;
+    for (const check of report.checks) {
+        if (check.chainId !== currentChain) {
+            currentChain = check.chainId;
+            console.log(`\n${chainName(check.chainId)}`);
+        }
+        console.log(
+            `  ${check.passed ? '✅' : '❌'} ${describe(check)}: ${check.message}`
+        );
+        if (check.fix) {
+            console.log(`     Fix: ${check.fix}`);
+        }
+    }
+
+    const failed = report.checks.filter((check) => !check.passed).length;
+    console.log('\n' + '='.repeat(60));
+    if (report.healthy) {
+        console.log(`✅ All ${report.checks.length} checks passed`);
+    } else {
+        console.log(`❌ ${failed} of ${report.checks.length} checks failed`);
+        process.exit(1);
+    }
+}
+
+main().catch((error) => {
+    console.error('\n❌ Doctor failed:', error);
+    process.exit(1);
+});
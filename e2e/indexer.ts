@@ -0,0 +1,111 @@
+/**
+ * Price feed event indexer
+ *
+ * Follows the source and every destination in CHAINS into a SQLite file,
+ * resuming from the stored cursors. Needs node:sqlite: Node.js 22.13+, or
+ * 22.5+ with --experimental-sqlite.
+ *
+ * Usage: pnpm indexer [--once]
+ *   INDEXER_DB_PATH    database file (default: price-feed-index.sqlite)
+ *   INDEXER_START_BLOCK_<CHAIN>  first block for a chain with no cursor
+ */
+
+import {
+    config,
+    CHAINS,
+    SOURCE_CHAIN_KEY,
+    DESTINATION_CHAIN_KEYS,
+    type ChainKey,
+} from '../config';
+import {
+    createPriceFeedIndexer,
+    createSqliteIndexerStore,
+    getClientRegistry,
+    getPriceUpdateHistory,
+    type IndexerSyncResult,
+} from '../ts-lib';
+
+const DEFAULT_DB_PATH = 'price-feed-index.sqlite';
+
+async function main() {
+    const once = process.argv.includes('--once');
+    const dbPath = process.env.INDEXER_DB_PATH || DEFAULT_DB_PATH;
+
+    const source = config[SOURCE_CHAIN_KEY];
+    const receivers = DESTINATION_CHAIN_KEYS.map((key) => config[key]);
+    const missing = [source, ...receivers].filter(
+        (chainConfig) => !chainConfig.priceFeedAddress
+    );
+    if (missing.length > 0) {
+        throw new Error(
+            `Missing price feed address for ${missing.map((c) => c.chain).join(', ')} - set PRICE_FEED_* in .env or priceFeed in the deployment file`
+        );
+    }
+
+    // sepolia -> INDEXER_START_BLOCK_SEPOLIA, baseSepolia -> INDEXER_START_BLOCK_BASE_SEPOLIA
+    const startBlocks: Record<number, bigint> = {};
+    for (const key of Object.keys(CHAINS) as ChainKey[]) {
+        const envKey = key.replace(/([A-Z])/g, '_$1').toUpperCase();
+        const value = process.env[`INDEXER_START_BLOCK_${envKey}`];
+        if (value) startBlocks[CHAINS[key].wormholeChainId] = BigInt(value);
+    }
+
+    const chainNames: Record<number, string> = Object.fromEntries(
+        [source, ...receivers].map((c) => [c.wormholeChainId, c.chain])
+    );
+
+    const store = await createSqliteIndexerStore(dbPath);
+    const indexer = createPriceFeedIndexer(
+        { source, receivers },
+        { store, startBlocks }
+    );
+
+    console.log('\n📚 Price Feed Indexer');
+    console.log('='.repeat(60));
+    console.log(`  Database: ${dbPath}`);
+
+    const controller = new AbortController();
+    const shutdown = () => controller.abort();
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    const report = (results: IndexerSyncResult[]) => {
+        for (const result of results) {
+            if (result.error) {
+                console.log(
+                    `❌ ${chainNames[result.chainId]}: ${result.error.message}`
+                );
+                continue;
+            }
+            if (result.rolledBackTo !== undefined) {
+                console.log(
+                    `↩️  ${chainNames[result.chainId]}: reorg, rolled back to block ${result.rolledBackTo}`
+                );
+            }
+            console.log(
+                `✅ ${chainNames[result.chainId]}: blocks ${result.fromBlock}-${result.toBlock}, ${result.events} event(s)`
+            );
+        }
+
+        const updates = getPriceUpdateHistory(store, source.wormholeChainId);
+        const targets = updates.flatMap((update) => update.targets);
+        console.log(
+            `  ${updates.length} update(s), ${targets.filter((t) => t.delivery).length}/${targets.length} deliveries indexed`
+        );
+    };
+
+    // Between passes the indexer waits for price feed events, at most 15s
+    if (once) {
+        report(await indexer.sync());
+    } else {
+        await indexer.run(controller.signal, report);
+    }
+
+    store.close();
+    await getClientRegistry().dispose();
+}
+
+main().catch((error) => {
+    console.error('\n❌ Indexer failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,368 @@
+/**
+ * Local mock Executor HTTP server
+ *
+ * Implements /v0/capabilities, /v0/quote and /v0/status/tx on top of the
+ * in-memory ExecutorClient, so the quote -> send -> status flow can run
+ * against local chains. Quotes are signed with a local test key.
+ *
+ * Point the scripts and the app proxy routes at it with
+ * EXECUTOR_API_URL=http://localhost:3100/v0 and trust the printed quoter
+ * address via EXECUTOR_TRUSTED_QUOTERS.
+ *
+ * Admin endpoints (POST, JSON body) change behaviour while it runs:
+ *   /admin/config   { defaultPricing?, pricing?, quoteTtlSeconds?, autoStatusSteps? }
+ *   /admin/failures { quote?: FailureRule | null, status?: ..., capabilities?: ... }
+ *   /admin/status   { txHash, srcChain, dstChain, steps }
+ */
+
+import {
+    createServer,
+    type IncomingMessage,
+    type ServerResponse,
+} from 'node:http';
+import { pathToFileURL } from 'node:url';
+import type { AddressInfo } from 'node:net';
+import type { RelayStatusKind } from '../config/types';
+import {
+    createInMemoryExecutorClient,
+    TEST_QUOTER_PRIVATE_KEY,
+    type InMemoryExecutorClient,
+    type InMemoryExecutorClientOptions,
+    type InMemoryExecutorSettings,
+    type QuotePricing,
+} from '../ts-lib/inMemoryExecutorClient';
+
+export type MockExecutorEndpoint = 'capabilities' | 'quote' | 'status';
+
+/**
+ * Make an endpoint fail instead of answering
+ */
+export interface FailureRule {
+    /** HTTP status to respond with (default 500) */
+    status?: number;
+    /** Number of requests to fail before recovering (default: until cleared) */
+    times?: number;
+    /** Only fail quote requests for this destination chain */
+    dstChain?: number;
+    /** Wait before responding, e.g. to trigger client timeouts */
+    delayMs?: number;
+}
+
+export interface MockExecutorOptions extends InMemoryExecutorClientOptions {
+    /** Port to listen on (default 3100, 0 picks a free port) */
+    port?: number;
+    host?: string;
+    failures?: Partial<Record<MockExecutorEndpoint, FailureRule>>;
+}
+
+export interface MockExecutor {
+    /** Base URL including the /v0 path - use as EXECUTOR_API_URL */
+    url: string;
+    client: InMemoryExecutorClient;
+    setFailure(endpoint: MockExecutorEndpoint, rule?: FailureRule): void;
+    close(): Promise<void>;
+}
+
+type PricingInput = Record<keyof QuotePricing, string | number>;
+
+/** Fields the Executor endpoints read from a request body */
+interface ExecutorRequestBody {
+    srcChain: number;
+    dstChain: number;
+    relayInstructions: string;
+    txHash: string;
+    chainId: number;
+}
+
+interface SettingsBody {
+    defaultPricing: PricingInput;
+    pricing: Record<string, PricingInput>;
+    quoteTtlSeconds: number;
+    autoStatusSteps: RelayStatusKind[];
+}
+
+type FailuresBody = Record<MockExecutorEndpoint, FailureRule | null>;
+
+interface ScriptStatusBody {
+    txHash: string;
+    srcChain: number;
+    dstChain: number;
+    steps: RelayStatusKind[];
+}
+
+// Pricing arrives as JSON, so amounts are decimal strings or numbers
+function parsePricing(input: PricingInput): QuotePricing {
+    return {
+        baseFee: BigInt(input.baseFee),
+        dstGasPrice: BigInt(input.dstGasPrice),
+        srcPrice: BigInt(input.srcPrice),
+        dstPrice: BigInt(input.dstPrice),
+    };
+}
+
+function parseSettings(body: Partial<SettingsBody>): InMemoryExecutorSettings {
+    const settings: InMemoryExecutorSettings = {};
+    if (body.defaultPricing) {
+        settings.defaultPricing = parsePricing(body.defaultPricing);
+    }
+    if (body.pricing) {
+        settings.pricing = Object.fromEntries(
+            Object.entries(body.pricing).map(([chainId, pricing]) => [
+                Number(chainId),
+                parsePricing(pricing),
+            ])
+        );
+    }
+    if (body.quoteTtlSeconds !== undefined) {
+        settings.quoteTtlSeconds = body.quoteTtlSeconds;
+    }
+    if (body.autoStatusSteps !== undefined) {
+        settings.autoStatusSteps = body.autoStatusSteps;
+    }
+    return settings;
+}
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) : {};
+}
+
+/**
+ * A request body as an object; each endpoint checks the fields it needs
+ */
+function requestBody<T extends object>(body: unknown): Partial<T> {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new Error('Request body must be a JSON object');
+    }
+    return body as Partial<T>;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+    });
+    response.end(JSON.stringify(body));
+}
+
+/**
+ * Start a mock Executor server
+ */
+export async function startMockExecutor(
+    options: MockExecutorOptions = {}
+): Promise<MockExecutor> {
+    const client = createInMemoryExecutorClient(options);
+    const failures: Partial<Record<MockExecutorEndpoint, FailureRule>> = {
+        ...options.failures,
+    };
+
+    // Returns the rule to apply to this request, consuming one use of it
+    function takeFailure(
+        endpoint: MockExecutorEndpoint,
+        dstChain?: number
+    ): FailureRule | undefined {
+        const rule = failures[endpoint];
+        if (!rule) return undefined;
+        if (rule.dstChain !== undefined && rule.dstChain !== dstChain) {
+            return undefined;
+        }
+        if (rule.times !== undefined) {
+            rule.times -= 1;
+            if (rule.times <= 0) delete failures[endpoint];
+        }
+        return rule;
+    }
+
+    async function handle(
+        endpoint: MockExecutorEndpoint,
+        body: Partial<ExecutorRequestBody>,
+        response: ServerResponse
+    ) {
+        const failure = takeFailure(endpoint, body.dstChain);
+        if (failure?.delayMs) {
+            await new Promise((resolve) => setTimeout(resolve, failure.delayMs));
+        }
+        if (failure) {
+            sendJson(response, failure.status ?? 500, {
+                error: `Injected ${endpoint} failure`,
+            });
+            return;
+        }
+
+        switch (endpoint) {
+            case 'capabilities':
+                sendJson(response, 200, await client.getCapabilities());
+                return;
+            case 'quote': {
+                if (!body.srcChain || !body.dstChain) {
+                    sendJson(response, 400, {
+                        error: 'Missing required parameters: srcChain, dstChain',
+                    });
+                    return;
+                }
+                try {
+                    const quote = await client.getQuote({
+                        srcChain: body.srcChain,
+                        dstChain: body.dstChain,
+                        relayInstructions: body.relayInstructions,
+                    });
+                    sendJson(response, 200, {
+                        signedQuote: quote.signedQuote,
+                        estimatedCost: quote.estimatedCost.toString(),
+                    });
+                } catch (error) {
+                    sendJson(response, 400, {
+                        error: (error as Error).message,
+                    });
+                }
+                return;
+            }
+            case 'status':
+                if (!body.txHash) {
+                    sendJson(response, 400, {
+                        error: 'Missing required parameter: txHash',
+                    });
+                    return;
+                }
+                sendJson(
+                    response,
+                    200,
+                    await client.getStatus(body.txHash, body.chainId)
+                );
+                return;
+        }
+    }
+
+    const server = createServer(async (request, response) => {
+        try {
+            const path = new URL(request.url ?? '/', 'http://localhost')
+                .pathname;
+            const json = request.method === 'POST' ? await readJson(request) : {};
+
+            if (request.method === 'OPTIONS') {
+                response.writeHead(204, {
+                    'Access-Control-Allow-Origin': '*',
+                    'Access-Control-Allow-Headers': 'Content-Type',
+                });
+                response.end();
+            } else if (path === '/v0/capabilities') {
+                await handle('capabilities', requestBody(json), response);
+            } else if (path === '/v0/quote' && request.method === 'POST') {
+                await handle('quote', requestBody(json), response);
+            } else if (path === '/v0/status/tx' && request.method === 'POST') {
+                await handle('status', requestBody(json), response);
+            } else if (path === '/admin/config' && request.method === 'POST') {
+                client.configure(parseSettings(requestBody(json)));
+                sendJson(response, 200, { ok: true });
+            } else if (path === '/admin/failures' && request.method === 'POST') {
+                const rules = requestBody<FailuresBody>(json);
+                for (const [endpoint, rule] of Object.entries(rules)) {
+                    mockExecutor.setFailure(
+                        endpoint as MockExecutorEndpoint,
+                        rule ?? undefined
+                    );
+                }
+                sendJson(response, 200, { ok: true });
+            } else if (path === '/admin/status' && request.method === 'POST') {
+                const { txHash, srcChain, dstChain, steps } =
+                    requestBody<ScriptStatusBody>(json);
+                if (!txHash || !srcChain || !dstChain || !steps) {
+                    sendJson(response, 400, {
+                        error: 'Missing required parameters: txHash, srcChain, dstChain, steps',
+                    });
+                    return;
+                }
+                client.scriptStatus(txHash, srcChain, dstChain, steps);
+                sendJson(response, 200, { ok: true });
+            } else {
+                sendJson(response, 404, { error: `Not found: ${path}` });
+            }
+        } catch (error) {
+            sendJson(response, 400, { error: (error as Error).message });
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port ?? 3100, options.host ?? '127.0.0.1', () =>
+            resolve()
+        );
+    });
+
+    const { port } = server.address() as AddressInfo;
+    const mockExecutor: MockExecutor = {
+        url: `http://${options.host ?? '127.0.0.1'}:${port}/v0`,
+        client,
+        setFailure(endpoint, rule) {
+            if (rule) {
+                failures[endpoint] = { ...rule };
+            } else {
+                delete failures[endpoint];
+            }
+        },
+        close() {
+            return new Promise((resolve, reject) =>
+                server.close((error) => (error ? reject(error) : resolve()))
+            );
+        },
+    };
+
+    return mockExecutor;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+    return value
+        ?.split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+
+async function main() {
+    const env = process.env;
+    const chains = parseList(env.MOCK_EXECUTOR_CHAINS)?.map(Number);
+    const quoteTtl = env.MOCK_EXECUTOR_QUOTE_TTL;
+
+    const mockExecutor = await startMockExecutor({
+        port: env.MOCK_EXECUTOR_PORT ? Number(env.MOCK_EXECUTOR_PORT) : undefined,
+        quoterPrivateKey: env.MOCK_EXECUTOR_QUOTER_KEY as `0x${string}` | undefined,
+        chains,
+        quoteTtlSeconds: quoteTtl ? Number(quoteTtl) : undefined,
+        // Nothing relays on local chains, so report every relay as executed
+        autoStatusSteps: (parseList(env.MOCK_EXECUTOR_AUTO_STATUS) ?? [
+            'pending',
+            'executed',
+        ]) as RelayStatusKind[],
+    });
+
+    console.log('\n🧪 Mock Executor running');
+    console.log('='.repeat(60));
+    console.log(`  EXECUTOR_API_URL=${mockExecutor.url}`);
+    console.log(
+        `  EXECUTOR_TRUSTED_QUOTERS=${mockExecutor.client.quoterAddress}`
+    );
+    if (!env.MOCK_EXECUTOR_QUOTER_KEY) {
+        console.log(
+            `  Signing with the well-known test key ${TEST_QUOTER_PRIVATE_KEY.slice(
+                0,
+                10
+            )}...`
+        );
+    }
+
+    const shutdown = () => {
+        mockExecutor.close().finally(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    main().catch((error) => {
+        console.error('\n❌ Mock Executor failed:', error);
+        process.exit(1);
+    });
+}
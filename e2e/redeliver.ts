@@ -0,0 +1,97 @@
+/**
+ * Manual redelivery of a price update
+ *
+ * Executes the signed VAA of a price update on a destination the Executor
+ * did not deliver to (or whose delivery reverted), from the destination's
+ * configured signer. A sequence the receiver has already consumed is never
+ * resubmitted.
+ *
+ * Usage: pnpm redeliver <source tx hash> <chain> [--gas-limit <gas>] [--dry-run]
+ *   <chain> is a config key (baseSepolia) or a Wormhole chain ID (10004)
+ */
+
+import { parseArgs } from 'node:util';
+import type { Hash } from 'viem';
+import { config, CHAINS, SOURCE_CHAIN_KEY, type ChainKey } from '../config';
+import {
+    redeliverPriceUpdate,
+    RedeliveryError,
+    PriceFeedRevertError,
+} from '../ts-lib';
+
+function findChainKey(chain: string): ChainKey | undefined {
+    return (Object.keys(CHAINS) as ChainKey[]).find(
+        (key) => key === chain || String(CHAINS[key].wormholeChainId) === chain
+    );
+}
+
+async function main() {
+    const usage =
+        'Usage: pnpm redeliver <source tx hash> <destination chain> [--gas-limit <gas>] [--dry-run]';
+    const { values, positionals } = parseArgs({
+        options: {
+            'gas-limit': { type: 'string' },
+            'dry-run': { type: 'boolean', default: false },
+        },
+        allowPositionals: true,
+    });
+    const [txHash, chain] = positionals;
+    const dryRun = values['dry-run'];
+
+    const gasValue = values['gas-limit'];
+    if (gasValue !== undefined && !/^\d+$/.test(gasValue)) {
+        throw new Error(`--gas-limit must be a whole number of gas\n${usage}`);
+    }
+    const gasLimit = gasValue !== undefined ? BigInt(gasValue) : undefined;
+
+    const key = chain ? findChainKey(chain) : undefined;
+    if (!txHash?.startsWith('0x') || !key || key === SOURCE_CHAIN_KEY) {
+        throw new Error(usage);
+    }
+
+    console.log('\n📦 Manual Redelivery');
+    console.log('='.repeat(60));
+    console.log(`  Source tx:   ${txHash}`);
+    console.log(`  Destination: ${CHAINS[key].name}`);
+
+    try {
+        const result = await redeliverPriceUpdate(
+            config[SOURCE_CHAIN_KEY],
+            config[key],
+            txHash as Hash,
+            { gasLimit, dryRun }
+        );
+
+        console.log(`  Sequence:    ${result.sequence}`);
+        console.log(`  Gas limit:   ${result.gas}`);
+        result.vaa.prices.symbols.forEach((symbol, i) => {
+            console.log(`  ${symbol}: ${result.vaa.prices.prices[i]}`);
+        });
+
+        if (dryRun) {
+            console.log(
+                '\n✅ Dry run: executeVAAv1 simulated, nothing was sent'
+            );
+        } else {
+            console.log(`\n✅ Delivered in ${result.hash}`);
+        }
+    } catch (error) {
+        if (
+            error instanceof RedeliveryError &&
+            error.reason === 'already-delivered'
+        ) {
+            console.log(`\n✅ ${error.message} - nothing to do`);
+            return;
+        }
+        if (error instanceof PriceFeedRevertError) {
+            console.log(`\n❌ executeVAAv1 would revert: ${error.message}`);
+            process.exit(1);
+        }
+        throw error;
+    }
+}
+
+main().catch((error) => {
+    console.error('\n❌ Redelivery failed:', error);
+    process.exit(1);
+});
@@ -2,12 +2,19 @@
  * E2E test for cross-chain price feed using Wormhole Executor
  */
 
-import { config, validateConfig } from '../config';
+import {
+    config,
+    validateConfig,
+    TRUSTED_QUOTERS,
+    SOURCE_CHAIN_KEY,
+    DESTINATION_CHAIN_KEYS,
+} from '../config';
 import {
     sendPriceUpdate,
-    waitForPriceUpdateReceipt,
+    waitForPriceDeliveries,
     queryPrice,
 } from './utils';
+import { getClientRegistry } from '../ts-lib';
 
 async function main() {
     console.log('\n🚀 Cross-Chain Price Feed E2E Test');
@@ -15,26 +22,38 @@ async function main() {
 
     validateConfig();
 
+    // --dry-run simulates updatePrices with real quotes without sending
+    const dryRun = process.argv.includes('--dry-run');
+
     const symbols = ['bitcoin', 'ethereum'];
     const prices = [
         BigInt(50000) * BigInt(10 ** 8),
         BigInt(3000) * BigInt(10 ** 8),
     ];
 
+    const source = config[SOURCE_CHAIN_KEY];
+    const destinations = DESTINATION_CHAIN_KEYS.map((key) => config[key]);
+
     console.log(
-        `Sending ${symbols.join(', ')} from ${config.sepolia.chain} to ${
-            config.baseSepolia.chain
-        } + ${config.polygonAmoy.chain}`
+        `Sending ${symbols.join(', ')} from ${source.chain} to ${destinations
+            .map((destination) => destination.chain)
+            .join(' + ')}`
     );
 
-    // Send price update from Sepolia to Base Sepolia AND Polygon Amoy
+    // Send price update from the source to every destination
     const { receipt } = await sendPriceUpdate(
-        config.sepolia,
-        [config.baseSepolia, config.polygonAmoy],
+        source,
+        destinations,
         symbols,
-        prices
+        prices,
+        { trustedQuoters: TRUSTED_QUOTERS, dryRun }
     );
 
+    if (dryRun) {
+        console.log('\n✅ Dry run complete - nothing was sent');
+        return;
+    }
+
     if (!receipt) {
         console.error('\n❌ Failed to send transaction');
         process.exit(1);
@@ -42,24 +61,24 @@ async function main() {
 
     console.log('\n⏳ Waiting for Executor relay (1-3 min)...\n');
 
-    const baseReceived = await waitForPriceUpdateReceipt(
-        config.baseSepolia,
-        symbols
-    );
-    const polygonReceived = await waitForPriceUpdateReceipt(
-        config.polygonAmoy,
-        symbols
+    const delivered = await waitForPriceDeliveries(
+        source,
+        destinations,
+        receipt.transactionHash
     );
 
-    if (baseReceived && polygonReceived) {
+    if (delivered) {
         console.log('\n📊 Verifying prices:');
         for (const symbol of symbols) {
-            const basePrice = await queryPrice(config.baseSepolia, symbol);
-            const polyPrice = await queryPrice(config.polygonAmoy, symbol);
+            const received = await Promise.all(
+                destinations.map((destination) =>
+                    queryPrice(destination, symbol)
+                )
+            );
             console.log(
                 `  ${symbol}: $${(
-                    Number(basePrice) / 1e8
-                ).toLocaleString()} (both chains)`
+                    Number(received[0]) / 1e8
+                ).toLocaleString()} (${received.length} chains)`
             );
         }
 
@@ -67,11 +86,12 @@ async function main() {
         console.log('✅ E2E Test PASSED!');
         console.log('='.repeat(60));
     } else {
-        console.log('\n❌ Test incomplete:');
-        console.log(`  Base Sepolia: ${baseReceived ? '✅' : '❌'}`);
-        console.log(`  Polygon Amoy: ${polygonReceived ? '✅' : '❌'}`);
+        console.log('\n❌ Test incomplete');
         process.exit(1);
     }
+
+    // Close WebSocket connections opened by delivery tracking
+    await getClientRegistry().dispose();
 }
 
 main().catch((error) => {
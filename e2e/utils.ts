@@ -3,21 +3,33 @@
  * Wraps shared library functions with console output for test visibility
  */
 
-import { formatEther, decodeEventLog, type Hash } from 'viem';
-import type { ChainConfig, SendPriceUpdateResult } from '../config/types';
+import { formatEther, encodeFunctionData, type Hash } from 'viem';
+import type {
+    ChainConfig,
+    ExecutorQuote,
+    SendPriceUpdateOptions,
+    SendPriceUpdateResult,
+} from '../config/types';
 import {
     queryPrice as libQueryPrice,
     getClients,
     getPublicClient,
     calculateTotalCost,
     getMultiChainQuotes,
+    defaultQuoteCache,
+    preflightRelayRequests,
     getCoreBridgeAddress,
     createRelayInstructions,
-    DEFAULT_GAS_LIMIT,
+    estimateDeliveryGasLimits,
+    getTargetChainMessages,
+    getTransactionManager,
+    decodePriceFeedRevert,
+    waitForPriceDeliveries as libWaitForPriceDeliveries,
     DEFAULT_MSG_VALUE,
     PRICE_FEED_SENDER_ABI,
     PRICE_FEED_RECEIVER_ABI,
     CORE_BRIDGE_ABI,
+    InsufficientBalanceError,
 } from '../ts-lib';
 
 /**
@@ -52,7 +64,8 @@ export async function sendPriceUpdate(
     fromConfig: ChainConfig,
     toConfigs: ChainConfig[],
     symbols: string[],
-    prices: bigint[]
+    prices: bigint[],
+    options: SendPriceUpdateOptions = {}
 ): Promise<SendPriceUpdateResult> {
     console.log(
         `\n📤 Sending ${symbols.join(', ')} from ${
@@ -62,20 +75,92 @@ export async function sendPriceUpdate(
 
     const { publicClient, walletClient } = await getClients(fromConfig);
 
-    // Build relay instructions
-    const gasLimit = DEFAULT_GAS_LIMIT * 2n;
+    // Size the destination gas limit for this payload
+    const gasLimits: Record<number, bigint> = {};
+    if (options.gasLimit !== undefined) {
+        for (const config of toConfigs) {
+            gasLimits[config.wormholeChainId] = options.gasLimit;
+        }
+    } else {
+        const estimates = await estimateDeliveryGasLimits(
+            toConfigs,
+            symbols,
+            prices,
+            options.gasEstimate
+        );
+        estimates.forEach((estimate, index) => {
+            console.log(
+                `⛽ ${toConfigs[index].chain}: gas limit ${estimate.gasLimit} (estimated ${estimate.estimatedGas} from ${estimate.source})`
+            );
+            gasLimits[estimate.chainId] = estimate.gasLimit;
+        });
+    }
     const msgValue = DEFAULT_MSG_VALUE;
-    const relayInstructions = createRelayInstructions(gasLimit, msgValue);
 
-    // Get quotes for all destination chains
-    const quotes = await getMultiChainQuotes(
+    const skippedDestinations: SendPriceUpdateResult['skippedDestinations'] =
+        [];
+
+    // Check relay parameters against Executor capabilities before quoting
+    const rejections = options.skipPreflight
+        ? new Map()
+        : await preflightRelayRequests(
+              fromConfig.wormholeChainId,
+              toConfigs.map((config) => config.wormholeChainId),
+              gasLimits,
+              msgValue,
+              fromConfig.network,
+              options.client
+          );
+    const accepted = toConfigs.filter((config) => {
+        const error = rejections.get(config.wormholeChainId);
+        if (error) {
+            console.warn(`⚠️  Skipping ${config.chain}: ${error.message}`);
+            skippedDestinations.push({
+                chainId: config.wormholeChainId,
+                error,
+            });
+        }
+        return !error;
+    });
+
+    // Get quotes for the remaining destination chains
+    const quoteResults = await getMultiChainQuotes(
         fromConfig.wormholeChainId,
-        toConfigs.map((config) => ({
+        accepted.map((config) => ({
             chainId: config.wormholeChainId,
-            relayInstructions,
-        }))
+            relayInstructions: createRelayInstructions(
+                gasLimits[config.wormholeChainId],
+                msgValue
+            ),
+        })),
+        fromConfig.network,
+        options.client ? options : { cache: defaultQuoteCache, ...options }
     );
 
+    // Drop destinations whose quote failed (unless all are required)
+    const targets: ChainConfig[] = [];
+    const quotes: ExecutorQuote[] = [];
+    quoteResults.forEach((result, index) => {
+        if (result.ok) {
+            targets.push(accepted[index]);
+            quotes.push(result.quote);
+        } else {
+            console.warn(
+                `⚠️  Skipping ${accepted[index].chain}: ${result.error.message}`
+            );
+            skippedDestinations.push({
+                chainId: result.chainId,
+                error: result.error,
+            });
+        }
+    });
+    if (
+        skippedDestinations.length > 0 &&
+        (options.requireAllDestinations || targets.length === 0)
+    ) {
+        throw skippedDestinations[0].error;
+    }
+
     // Calculate total cost
     const coreBridgeAddress = await getCoreBridgeAddress(fromConfig);
 
@@ -94,111 +179,174 @@ export async function sendPriceUpdate(
     console.log(`💰 Total cost: ${formatEther(totalCost)} ETH`);
 
     // Check balance
-    const balance = await publicClient.getBalance({
-        address: walletClient.account!.address,
-    });
+    const account = walletClient.account!.address;
+    const balance = await publicClient.getBalance({ address: account });
     if (balance < totalCost) {
-        throw new Error('Insufficient balance for transaction');
+        throw new InsufficientBalanceError(account, balance, totalCost);
     }
 
     // Build target chain params
-    const targetChainParams = toConfigs.map((config, index) => ({
+    const targetChainParams = targets.map((config, index) => ({
         chainId: config.wormholeChainId,
-        gasLimit: gasLimit,
+        gasLimit: gasLimits[config.wormholeChainId],
         totalCost: quotes[index].estimatedCost,
         signedQuote: quotes[index].signedQuote,
     }));
 
+    const targetGasLimits = Object.fromEntries(
+        targets.map((config) => [
+            config.wormholeChainId,
+            gasLimits[config.wormholeChainId],
+        ])
+    );
+
     // Send transaction using simulateContract + writeContract pattern
-    const { request } = await publicClient.simulateContract({
+    const call = {
         address: fromConfig.priceFeedAddress,
         abi: PRICE_FEED_SENDER_ABI,
         functionName: 'updatePrices',
         args: [symbols, prices, targetChainParams],
         value: totalCost,
         account: walletClient.account!,
-    });
+    } as const;
+    let request;
+    try {
+        ({ request } = await publicClient.simulateContract(call));
+    } catch (error) {
+        const revert = decodePriceFeedRevert(error);
+        if (revert) {
+            console.error(`❌ updatePrices would revert: ${revert.message}`);
+        }
+        throw revert ?? error;
+    }
 
-    const hash = await walletClient.writeContract(request);
-    const receipt = await waitForTx(publicClient, hash, 'Price update');
+    if (options.dryRun) {
+        const gas = await publicClient.estimateContractGas(call);
+        const data = encodeFunctionData({
+            abi: PRICE_FEED_SENDER_ABI,
+            functionName: 'updatePrices',
+            args: call.args,
+        });
+        console.log(
+            `🧪 Dry run OK - not sent (gas: ${gas}, value: ${formatEther(totalCost)} ETH, calldata: ${(data.length - 2) / 2} bytes)`
+        );
+        const simulation = {
+            to: fromConfig.priceFeedAddress,
+            data,
+            value: totalCost,
+            gas,
+        };
+        return {
+            receipt: null,
+            hash: undefined,
+            sequence: undefined,
+            messages: [],
+            skippedDestinations,
+            gasLimits: targetGasLimits,
+            simulation,
+            simulations: [simulation],
+            batches: [
+                {
+                    symbols,
+                    receipt: null,
+                    hash: undefined,
+                    messages: [],
+                    simulation,
+                    gasLimits: targetGasLimits,
+                },
+            ],
+        };
+    }
 
-    // Parse sequence from event
-    let sequence: bigint | undefined;
-    for (const log of receipt.logs) {
-        try {
-            const event = decodeEventLog({
+    // Send through the transaction manager so a stuck transaction is replaced
+    const transactionManager =
+        options.transactionManager ??
+        (await getTransactionManager(fromConfig));
+    const { hash, replacements } = await transactionManager.sendTransaction(
+        async () => ({
+            to: request.address,
+            data: encodeFunctionData({
                 abi: PRICE_FEED_SENDER_ABI,
-                data: log.data,
-                topics: log.topics,
-            });
-            if (event.eventName === 'PricesUpdated') {
-                const args = event.args as any;
-                console.log(`✅ Sent (sequence: ${args.sequence})`);
-                sequence = args.sequence;
-                break;
-            }
-        } catch {
-            // Not our event, continue
-        }
+                functionName: 'updatePrices',
+                args: call.args,
+            }),
+            value: request.value,
+            context: undefined,
+        })
+    );
+    if (replacements > 0) {
+        console.log(`🔁 Replaced ${replacements} time(s) with higher fees`);
+    }
+    const receipt = await waitForTx(publicClient, hash, 'Price update');
+
+    // One Wormhole message per target chain
+    const messages = getTargetChainMessages(receipt, fromConfig);
+    for (const message of messages) {
+        const target = targets.find(
+            (config) => config.wormholeChainId === message.chainId
+        );
+        console.log(
+            `✅ Sent to ${target?.chain ?? message.chainId} (sequence: ${message.sequence})`
+        );
     }
 
-    return { receipt, hash, sequence };
+    return {
+        receipt,
+        hash,
+        sequence: messages[0]?.sequence,
+        messages,
+        skippedDestinations,
+        gasLimits: targetGasLimits,
+        batches: [
+            { symbols, receipt, hash, messages, gasLimits: targetGasLimits },
+        ],
+    };
 }
 
 /**
- * Wait for price updates to be received on the target chain with logging
+ * Wait for the price update to be delivered on every target chain with logging
+ * Deliveries are matched to the sequence of each target's message, so an
+ * earlier delivery from the same sender does not count.
  */
-export async function waitForPriceUpdateReceipt(
-    chainConfig: ChainConfig,
-    expectedSymbols: string[]
+export async function waitForPriceDeliveries(
+    fromConfig: ChainConfig,
+    toConfigs: ChainConfig[],
+    txHash: Hash
 ): Promise<boolean> {
-    console.log(`⏳ Waiting for ${chainConfig.chain}...`);
-
-    const publicClient = await getPublicClient(chainConfig);
-
-    // Get starting block
-    const currentBlock = await publicClient.getBlockNumber();
-    const fromBlock = currentBlock > 1000n ? currentBlock - 1000n : 0n;
-
     console.log(
-        `\nPolling for PricesReceived event from block ${fromBlock}...`
+        `⏳ Waiting for ${toConfigs.map((c) => c.chain).join(', ')}...`
     );
 
-    // Poll with logging
-    const startTime = Date.now();
-    const timeoutMs = 120000;
-
-    while (Date.now() - startTime < timeoutMs) {
-        const logs = await publicClient.getLogs({
-            address: chainConfig.priceFeedAddress,
-            event: {
-                type: 'event',
-                name: 'PricesReceived',
-                inputs: [
-                    { type: 'uint256', name: 'count', indexed: false },
-                    { type: 'uint16', name: 'senderChain', indexed: false },
-                    { type: 'bytes32', name: 'sender', indexed: false },
-                ],
-            },
-            fromBlock,
-            toBlock: 'latest',
-        });
+    const deliveries = await libWaitForPriceDeliveries(
+        fromConfig,
+        toConfigs,
+        txHash,
+        { timeoutMs: 180000 }
+    );
 
-        if (logs.length > 0) {
-            const log = logs[0];
-            console.log(`✅ Found PricesReceived event!`);
-            console.log(
-                `✅ ${chainConfig.chain} received (tx: ${log.transactionHash})`
-            );
-            return true;
+    for (const [i, delivery] of deliveries.entries()) {
+        const chain = toConfigs[i].chain;
+        switch (delivery.status) {
+            case 'delivered':
+                console.log(
+                    `✅ ${chain} received sequence ${delivery.sequence}` +
+                        (delivery.deliveryTxHash
+                            ? ` (tx: ${delivery.deliveryTxHash}, ${delivery.latencySeconds}s)`
+                            : '')
+                );
+                break;
+            case 'failed':
+                console.log(`❌ ${chain} delivery failed: ${delivery.reason}`);
+                break;
+            case 'pending':
+                console.log(
+                    `⚠️  Timeout waiting for ${chain} to receive sequence ${delivery.sequence}`
+                );
+                break;
         }
-
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-        process.stdout.write('.');
     }
 
-    console.log(`\n⚠️  Timeout waiting for PricesReceived event`);
-    return false;
+    return deliveries.every((delivery) => delivery.status === 'delivered');
 }
 
 /**
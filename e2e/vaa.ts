@@ -0,0 +1,131 @@
+/**
+ * VAA inspection for a price update
+ *
+ * Fetches the VAA of every message sent by a source transaction from
+ * Wormholescan, decodes it and verifies it against the guardian set on the
+ * destination's core bridge - exactly what the destination will execute.
+ * Exits non-zero if a VAA is missing or fails verification.
+ *
+ * Usage: pnpm inspect:vaa <source tx hash>
+ */
+
+import { formatUnits, type Hash } from 'viem';
+import {
+    config,
+    CHAINS,
+    SOURCE_CHAIN_KEY,
+    DESTINATION_CHAIN_KEYS,
+} from '../config';
+import {
+    getGuardianSet,
+    getPublicClient,
+    getTargetChainMessages,
+    parsePriceVaa,
+    pollForVAA,
+    recoverVaaSigners,
+    verifyVaa,
+} from '../ts-lib';
+
+// Prices are stored with 8 decimals
+const PRICE_DECIMALS = 8;
+
+function chainName(wormholeChainId: number): string {
+    return (
+        Object.values(CHAINS).find(
+            (chain) => chain.wormholeChainId === wormholeChainId
+        )?.name ?? String(wormholeChainId)
+    );
+}
+
+async function main() {
+    const txHash = process.argv[2] as Hash | undefined;
+    if (!txHash?.startsWith('0x')) {
+        throw new Error('Usage: pnpm inspect:vaa <source tx hash>');
+    }
+
+    const source = config[SOURCE_CHAIN_KEY];
+    const receivers = DESTINATION_CHAIN_KEYS.map((key) => config[key]);
+
+    const publicClient = await getPublicClient(source);
+    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+    const messages = getTargetChainMessages(receipt, source);
+    if (messages.length === 0) {
+        throw new Error(`${txHash} did not send any price update`);
+    }
+
+    console.log('\n🔏 Price Update VAAs');
+    console.log('='.repeat(60));
+
+    let failed = false;
+    for (const message of messages) {
+        console.log(
+            `\n${chainName(message.chainId)} (sequence ${message.sequence})`
+        );
+
+        const signed = await pollForVAA(
+            message.emitterChain,
+            message.emitterAddress,
+            Number(message.sequence),
+            source.network === 'Mainnet' ? 'Mainnet' : 'Testnet',
+            30000
+        );
+        if (!signed) {
+            console.log('  ⏳ VAA not signed yet');
+            failed = true;
+            continue;
+        }
+
+        const vaa = parsePriceVaa(signed.vaa);
+        console.log(`  Guardian set:   ${vaa.guardianSetIndex}`);
+        console.log(`  Timestamp:      ${vaa.timestamp.toISOString()}`);
+        console.log(
+            `  Emitter:        ${chainName(vaa.emitterChain)} ${vaa.emitterAddress}`
+        );
+        console.log(`  Sequence:       ${vaa.sequence}`);
+        console.log(`  Consistency:    ${vaa.consistencyLevel}`);
+        console.log(`  Digest:         ${vaa.hash}`);
+        vaa.prices.symbols.forEach((symbol, i) => {
+            console.log(
+                `  ${symbol}: $${formatUnits(vaa.prices.prices[i], PRICE_DECIMALS)}`
+            );
+        });
+
+        const signers = await recoverVaaSigners(vaa);
+        console.log(
+            `  Signatures:     ${signers.map((s) => s.guardianIndex).join(', ')}`
+        );
+
+        const destination = receivers.find(
+            (receiver) => receiver.wormholeChainId === message.chainId
+        );
+        if (!destination) {
+            console.log('  ⚠️  Destination not in config - not verified');
+            continue;
+        }
+
+        try {
+            await verifyVaa(vaa, {
+                guardianSet: await getGuardianSet(
+                    destination,
+                    vaa.guardianSetIndex
+                ),
+                emitterChain: source.wormholeChainId,
+                emitterAddress: source.priceFeedAddress,
+            });
+            console.log(
+                `  ✅ Signed by a quorum of guardian set ${vaa.guardianSetIndex}, emitted by PriceFeedSender`
+            );
+        } catch (error) {
+            console.log(`  ❌ ${(error as Error).message}`);
+            failed = true;
+        }
+    }
+
+    console.log('\n' + '='.repeat(60));
+    if (failed) process.exit(1);
+}
+
+main().catch((error) => {
+    console.error('\n❌ VAA inspection failed:', error);
+    process.exit(1);
+});
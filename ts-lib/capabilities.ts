@@ -0,0 +1,172 @@
+/**
+ * Preflight validation of relay requests against Executor capabilities
+ *
+ * The Executor API rejects requests that exceed a chain's limits with an
+ * opaque error. Checking the advertised capabilities first lets callers see
+ * exactly which destination and which limit is the problem.
+ */
+
+import type { Network } from '@wormhole-foundation/sdk-base';
+import type {
+    ExecutorCapabilities,
+    ExecutorClient,
+    RelayRequestCheck,
+} from '../config/types';
+import { getDefaultExecutorClient } from './executorClient';
+import { RelayValidationError } from './errors';
+
+/** Request prefix used for VAA v1 delivery (executeVAAv1) */
+export const VAA_V1_REQUEST_PREFIX = 'ERV1';
+
+const CAPABILITIES_TTL_MS = 5 * 60 * 1000;
+
+const capabilitiesCache = new WeakMap<
+    ExecutorClient,
+    { capabilities: Record<number, ExecutorCapabilities>; fetchedAt: number }
+>();
+
+/**
+ * Load Executor capabilities for all chains, cached per client for 5 minutes
+ */
+export async function loadExecutorCapabilities(
+    network: Network = 'Testnet',
+    forceRefresh: boolean = false,
+    client: ExecutorClient = getDefaultExecutorClient(network)
+): Promise<Record<number, ExecutorCapabilities>> {
+    const cached = capabilitiesCache.get(client);
+    if (
+        cached &&
+        !forceRefresh &&
+        Date.now() - cached.fetchedAt < CAPABILITIES_TTL_MS
+    ) {
+        return cached.capabilities;
+    }
+
+    const capabilities = await client.getCapabilities();
+    capabilitiesCache.set(client, { capabilities, fetchedAt: Date.now() });
+    return capabilities;
+}
+
+/**
+ * Check a relay request against already-loaded capabilities
+ * Throws RelayValidationError describing the first violated limit
+ */
+export function checkRelayRequest(
+    capabilities: Record<number, ExecutorCapabilities>,
+    request: RelayRequestCheck
+): void {
+    const { srcChain, dstChain } = request;
+    const prefix = request.requestPrefix ?? VAA_V1_REQUEST_PREFIX;
+
+    if (!capabilities[srcChain]) {
+        throw new RelayValidationError(
+            'unsupported-chain',
+            dstChain,
+            `Executor does not support source chain ${srcChain}`
+        );
+    }
+
+    const dst = capabilities[dstChain];
+    if (!dst) {
+        throw new RelayValidationError(
+            'unsupported-chain',
+            dstChain,
+            `Executor does not support destination chain ${dstChain}`
+        );
+    }
+
+    if (!dst.requestPrefixes.includes(prefix)) {
+        throw new RelayValidationError(
+            'unsupported-prefix',
+            dstChain,
+            `Executor does not accept ${prefix} requests for chain ${dstChain} (supports: ${dst.requestPrefixes.join(', ')})`
+        );
+    }
+
+    if (dst.maxGasLimit && request.gasLimit > BigInt(dst.maxGasLimit)) {
+        throw new RelayValidationError(
+            'gas-limit-exceeded',
+            dstChain,
+            `Gas limit ${request.gasLimit} exceeds executor maximum ${dst.maxGasLimit} for chain ${dstChain}`
+        );
+    }
+
+    const msgValue = request.msgValue ?? 0n;
+    if (dst.maxMsgValue && msgValue > BigInt(dst.maxMsgValue)) {
+        throw new RelayValidationError(
+            'msg-value-exceeded',
+            dstChain,
+            `msg.value ${msgValue} exceeds executor maximum ${dst.maxMsgValue} for chain ${dstChain}`
+        );
+    }
+
+    const dropOff = request.dropOff ?? 0n;
+    if (
+        dropOff > 0n &&
+        dst.gasDropOffLimit !== undefined &&
+        dropOff > BigInt(dst.gasDropOffLimit)
+    ) {
+        throw new RelayValidationError(
+            'drop-off-exceeded',
+            dstChain,
+            `Gas drop-off ${dropOff} exceeds executor limit ${dst.gasDropOffLimit} for chain ${dstChain}`
+        );
+    }
+}
+
+/**
+ * Load capabilities for the network and validate a relay request before quoting
+ */
+export async function validateRelayRequest(
+    request: RelayRequestCheck,
+    network: Network = 'Testnet',
+    client?: ExecutorClient
+): Promise<void> {
+    const capabilities = await loadExecutorCapabilities(
+        network,
+        false,
+        client
+    );
+    checkRelayRequest(capabilities, request);
+}
+
+/**
+ * Validate relay parameters for several destinations at once
+ * `gasLimit` applies to every destination, or is given per Wormhole chain ID.
+ * Returns the rejected destinations; if capabilities cannot be loaded the
+ * check is skipped and nothing is rejected, leaving the quote to fail instead.
+ */
+export async function preflightRelayRequests(
+    srcChain: number,
+    dstChains: number[],
+    gasLimit: bigint | Record<number, bigint>,
+    msgValue: bigint = 0n,
+    network: Network = 'Testnet',
+    client?: ExecutorClient
+): Promise<Map<number, RelayValidationError>> {
+    const rejected = new Map<number, RelayValidationError>();
+
+    let capabilities: Record<number, ExecutorCapabilities>;
+    try {
+        capabilities = await loadExecutorCapabilities(network, false, client);
+    } catch {
+        return rejected;
+    }
+
+    for (const dstChain of dstChains) {
+        try {
+            checkRelayRequest(capabilities, {
+                srcChain,
+                dstChain,
+                gasLimit:
+                    typeof gasLimit === 'bigint' ? gasLimit : gasLimit[dstChain],
+                msgValue,
+            });
+        } catch (error) {
+            if (!(error instanceof RelayValidationError)) throw error;
+            rejected.set(dstChain, error);
+        }
+    }
+
+    return rejected;
+}
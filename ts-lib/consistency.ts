@@ -0,0 +1,185 @@
+/**
+ * Cross-chain price consistency checks
+ *
+ * Reads the stored prices of several symbols from the sender and every
+ * receiver - one multicall per chain, pinned to a single block - and reports
+ * which receivers match the source, which lag behind and which differ.
+ */
+
+import type { PublicClient } from 'viem';
+import type {
+    ChainConfig,
+    ConsistencyCheckOptions,
+    ConsistencyReport,
+    PriceConsistencyStatus,
+    SymbolConsistency,
+} from '../config/types';
+import { PriceFeedEventsABI, PriceFeedReceiverABI } from '../config/abi';
+import { getPublicClient } from './wormhole';
+
+/**
+ * Read stored prices for the symbols at one block
+ * Uses multicall3 when the chain has it, otherwise one call per symbol.
+ */
+export async function readPrices(
+    chainConfig: ChainConfig,
+    symbols: string[],
+    blockNumber?: bigint
+): Promise<{ blockNumber: bigint; prices: bigint[] }> {
+    const publicClient = await getPublicClient(chainConfig);
+    const pinned = blockNumber ?? (await publicClient.getBlockNumber());
+    // Sender and receiver share the prices(string) getter
+    const contracts = symbols.map((symbol) => ({
+        address: chainConfig.priceFeedAddress,
+        abi: PriceFeedReceiverABI,
+        functionName: 'prices',
+        args: [symbol],
+    }));
+
+    if (publicClient.chain?.contracts?.multicall3) {
+        const results = await publicClient.multicall({
+            contracts,
+            blockNumber: pinned,
+            allowFailure: false,
+        });
+        return { blockNumber: pinned, prices: results as bigint[] };
+    }
+
+    const prices = await Promise.all(
+        contracts.map(
+            (contract) =>
+                publicClient.readContract({
+                    ...contract,
+                    blockNumber: pinned,
+                }) as Promise<bigint>
+        )
+    );
+    return { blockNumber: pinned, prices };
+}
+
+/**
+ * Prices the source has stored for each symbol in recent updates
+ * Returns an empty history if the logs cannot be read
+ */
+async function getSourcePriceHistory(
+    publicClient: PublicClient,
+    source: ChainConfig,
+    toBlock: bigint,
+    historyBlocks: bigint
+): Promise<Map<string, Set<bigint>>> {
+    const history = new Map<string, Set<bigint>>();
+    if (historyBlocks === 0n) return history;
+
+    try {
+        const logs = await publicClient.getContractEvents({
+            address: source.priceFeedAddress,
+            abi: PriceFeedEventsABI,
+            eventName: 'LocalPricesStored',
+            fromBlock: toBlock > historyBlocks ? toBlock - historyBlocks : 0n,
+            toBlock,
+            strict: true,
+        });
+        for (const log of logs) {
+            const { tokenNames, prices } = log.args;
+            tokenNames.forEach((symbol, i) => {
+                if (!history.has(symbol)) history.set(symbol, new Set());
+                history.get(symbol)!.add(prices[i]);
+            });
+        }
+    } catch {
+        // Without history every mismatch is reported as differing
+    }
+    return history;
+}
+
+function classify(
+    sourcePrice: bigint,
+    price: bigint,
+    previous: Set<bigint> | undefined
+): PriceConsistencyStatus {
+    if (price === sourcePrice) return 'match';
+    if (price === 0n || previous?.has(price)) return 'lagging';
+    return 'differs';
+}
+
+/**
+ * Compare stored prices on every receiver with the source
+ *
+ * The source is read first; receivers are read at their latest block after
+ * that, so a receiver only lags if a relay is still in flight or was missed.
+ * Throws if the source cannot be read; unreadable receivers are reported in
+ * `unreachable`.
+ */
+export async function checkConsistency(
+    symbols: string[],
+    chains: { source: ChainConfig; receivers: ChainConfig[] },
+    options: ConsistencyCheckOptions = {}
+): Promise<ConsistencyReport> {
+    const { source, receivers } = chains;
+    const sourceClient = await getPublicClient(source);
+
+    const sourceReading = await readPrices(
+        source,
+        symbols,
+        options.sourceBlockNumber
+    );
+    const [history, receiverReadings] = await Promise.all([
+        getSourcePriceHistory(
+            sourceClient,
+            source,
+            sourceReading.blockNumber,
+            options.historyBlocks ?? 5000n
+        ),
+        Promise.allSettled(
+            receivers.map((receiver) => readPrices(receiver, symbols))
+        ),
+    ]);
+
+    const blockNumbers: Record<number, bigint> = {
+        [source.wormholeChainId]: sourceReading.blockNumber,
+    };
+    const unreachable: ConsistencyReport['unreachable'] = [];
+    const readable: Array<{ chainId: number; prices: bigint[] }> = [];
+
+    receiverReadings.forEach((reading, i) => {
+        const chainId = receivers[i].wormholeChainId;
+        if (reading.status === 'fulfilled') {
+            blockNumbers[chainId] = reading.value.blockNumber;
+            readable.push({ chainId, prices: reading.value.prices });
+        } else {
+            unreachable.push({ chainId, error: reading.reason as Error });
+        }
+    });
+
+    const results: SymbolConsistency[] = symbols.map((symbol, i) => {
+        const sourcePrice = sourceReading.prices[i];
+        const result: SymbolConsistency = {
+            symbol,
+            sourcePrice,
+            prices: {},
+            matching: [],
+            lagging: [],
+            differing: [],
+        };
+
+        for (const { chainId, prices } of readable) {
+            result.prices[chainId] = prices[i];
+            const status = classify(sourcePrice, prices[i], history.get(symbol));
+            if (status === 'match') result.matching.push(chainId);
+            else if (status === 'lagging') result.lagging.push(chainId);
+            else result.differing.push(chainId);
+        }
+        return result;
+    });
+
+    return {
+        sourceChain: source.wormholeChainId,
+        blockNumbers,
+        symbols: results,
+        unreachable,
+        consistent: results.every(
+            (result) =>
+                result.lagging.length === 0 && result.differing.length === 0
+        ),
+    };
+}
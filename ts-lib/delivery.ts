@@ -0,0 +1,375 @@
+/**
+ * Sequence-accurate delivery confirmation on destination chains
+ *
+ * A PricesReceived event only names the sender chain and address, so any
+ * earlier delivery looks the same as ours. Deliveries are instead tied to the
+ * (emitterChain, emitterAddress, sequence) of the source message:
+ * - the receiver's sequence replay-protection bitmap says whether the
+ *   message has been consumed
+ * - the executeVAAv1 calldata of PricesReceived transactions identifies the
+ *   delivery transaction, giving its hash and latency
+ */
+
+import {
+    decodeFunctionData,
+    keccak256,
+    numberToHex,
+    type Hash,
+    type Hex,
+    type PublicClient,
+} from 'viem';
+import type {
+    ChainConfig,
+    DeliveryTrackerOptions,
+    DestinationDelivery,
+    ExecutorRelayStatus,
+    TargetChainMessage,
+} from '../config/types';
+import { PriceFeedEventsABI, PriceFeedReceiverABI } from '../config/abi';
+import { getPublicClient } from './wormhole';
+import { getTargetChainMessages } from './messaging';
+import { getRelayStatuses } from './status';
+import { onPricesReceived } from './subscriptions';
+import { parseVaa } from './vaa';
+
+// keccak256("WormholeReplayProtection"), see SequenceReplayProtectionLib
+const REPLAY_PROTECTION_SALT =
+    0x451e1cdd759c032e4b76c22f1e318ddd04a5b1d6ffcbd3f32c8e0770c6ecdf59n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+type DeliveredMessage = Pick<
+    TargetChainMessage,
+    'emitterChain' | 'emitterAddress' | 'sequence'
+>;
+
+function toWord(value: bigint): Hex {
+    return numberToHex(value, { size: 32 });
+}
+
+/**
+ * Storage slot and bit that SequenceReplayProtectionLib sets for a message
+ */
+export function getReplayProtectionSlot(
+    emitterChain: number,
+    emitterAddress: Hex,
+    sequence: bigint
+): { slot: Hex; bitMask: bigint } {
+    const chainIdHash = BigInt(keccak256(toWord(BigInt(emitterChain))));
+    const baseSlot = BigInt(
+        keccak256(
+            toWord(
+                REPLAY_PROTECTION_SALT ^ chainIdHash ^ BigInt(emitterAddress)
+            )
+        )
+    );
+
+    return {
+        slot: toWord((baseSlot + (sequence >> 8n)) & MAX_UINT256),
+        bitMask: 1n << (sequence & 0xffn),
+    };
+}
+
+/**
+ * Whether the receiver has consumed the message (its sequence is replay protected)
+ */
+export async function isMessageDelivered(
+    toConfig: ChainConfig,
+    message: DeliveredMessage
+): Promise<boolean> {
+    const publicClient = await getPublicClient(toConfig);
+    const { slot, bitMask } = getReplayProtectionSlot(
+        message.emitterChain,
+        message.emitterAddress,
+        message.sequence
+    );
+    const value = await publicClient.getStorageAt({
+        address: toConfig.priceFeedAddress,
+        slot,
+    });
+    return (BigInt(value ?? '0x0') & bitMask) !== 0n;
+}
+
+/**
+ * Emitter and sequence of the message delivered by executeVAAv1 calldata
+ * Returns undefined for any other call (e.g. delivery through another contract)
+ */
+export function decodeDeliveryCalldata(
+    input: Hex
+): DeliveredMessage | undefined {
+    try {
+        const call = decodeFunctionData({
+            abi: PriceFeedReceiverABI,
+            data: input,
+        });
+        if (call.functionName !== 'executeVAAv1') return undefined;
+        const { emitterChain, emitterAddress, sequence } = parseVaa(
+            call.args![0] as Hex
+        );
+        return { emitterChain, emitterAddress, sequence };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Find the destination transaction that executed the message
+ *
+ * Searches PricesReceived events from the message's emitter, newest first,
+ * and matches the sequence in each transaction's executeVAAv1 calldata.
+ * Returns undefined if no transaction within `lookbackBlocks` matches.
+ */
+export async function findDeliveryTransaction(
+    toConfig: ChainConfig,
+    message: DeliveredMessage,
+    lookbackBlocks: bigint = 5000n
+): Promise<{ txHash: Hash; blockNumber: bigint } | undefined> {
+    const publicClient = await getPublicClient(toConfig);
+    const latest = await publicClient.getBlockNumber();
+    const logs = await publicClient.getContractEvents({
+        address: toConfig.priceFeedAddress,
+        abi: PriceFeedEventsABI,
+        eventName: 'PricesReceived',
+        fromBlock: latest > lookbackBlocks ? latest - lookbackBlocks : 0n,
+        toBlock: latest,
+        strict: true,
+    });
+
+    const emitter = message.emitterAddress.toLowerCase();
+    for (const log of [...logs].reverse()) {
+        const { args } = log;
+        if (
+            Number(args.senderChain) !== message.emitterChain ||
+            args.sender.toLowerCase() !== emitter
+        ) {
+            continue;
+        }
+
+        const tx = await publicClient.getTransaction({
+            hash: log.transactionHash as Hash,
+        });
+        if (decodeDeliveryCalldata(tx.input)?.sequence === message.sequence) {
+            return {
+                txHash: log.transactionHash as Hash,
+                blockNumber: log.blockNumber as bigint,
+            };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Failure reported by the Executor for a relay that was not delivered
+ * A relay the Executor executed has failed if every delivery transaction reverted
+ */
+async function getRelayFailure(
+    publicClient: PublicClient,
+    status: ExecutorRelayStatus | undefined
+): Promise<string | undefined> {
+    if (!status) return undefined;
+    switch (status.status) {
+        case 'error':
+        case 'underpaid':
+        case 'aborted':
+            return status.reason;
+        case 'executed': {
+            if (status.destinationTxHashes.length === 0) return undefined;
+            try {
+                const receipts = await Promise.all(
+                    status.destinationTxHashes.map((hash) =>
+                        publicClient.getTransactionReceipt({
+                            hash: hash as Hash,
+                        })
+                    )
+                );
+                return receipts.every(
+                    (receipt) => receipt.status === 'reverted'
+                )
+                    ? `Delivery transaction ${status.destinationTxHashes.join(', ')} reverted`
+                    : undefined;
+            } catch {
+                return undefined;
+            }
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Check the delivery of one message on its destination
+ * `sourceTimestamp` (seconds) is the source block time, used for latency
+ */
+export async function checkDelivery(
+    toConfig: ChainConfig,
+    message: TargetChainMessage,
+    sourceTimestamp: bigint,
+    options: Pick<DeliveryTrackerOptions, 'lookbackBlocks'> & {
+        relayStatus?: ExecutorRelayStatus;
+    } = {}
+): Promise<DestinationDelivery> {
+    const base = { chainId: message.chainId, sequence: message.sequence };
+    const publicClient = await getPublicClient(toConfig);
+
+    if (!(await isMessageDelivered(toConfig, message))) {
+        const reason = await getRelayFailure(publicClient, options.relayStatus);
+        return reason
+            ? { ...base, status: 'failed', reason }
+            : { ...base, status: 'pending' };
+    }
+
+    const delivery = await findDeliveryTransaction(
+        toConfig,
+        message,
+        options.lookbackBlocks
+    );
+    if (!delivery) {
+        return { ...base, status: 'delivered' };
+    }
+
+    const block = await publicClient.getBlock({
+        blockNumber: delivery.blockNumber,
+    });
+    return {
+        ...base,
+        status: 'delivered',
+        deliveryTxHash: delivery.txHash,
+        deliveryBlockNumber: delivery.blockNumber,
+        latencySeconds: Number(block.timestamp - sourceTimestamp),
+    };
+}
+
+/**
+ * Wait until the price update from a source transaction is delivered or has
+ * failed on every destination
+ *
+ * Returns one entry per destination, in the order of `toConfigs`. Entries
+ * still pending when the timeout elapses are returned as pending; a
+ * destination the source transaction did not target is reported as failed.
+ * Destinations are checked again as soon as they emit PricesReceived.
+ */
+export async function waitForPriceDeliveries(
+    fromConfig: ChainConfig,
+    toConfigs: ChainConfig[],
+    sourceTxHash: Hash,
+    options: DeliveryTrackerOptions = {}
+): Promise<DestinationDelivery[]> {
+    const pollIntervalMs = options.pollIntervalMs ?? 10000;
+    const timeoutMs = options.timeoutMs ?? 180000;
+    const startTime = Date.now();
+
+    const sourceClient = await getPublicClient(fromConfig);
+    const receipt = await sourceClient.getTransactionReceipt({
+        hash: sourceTxHash,
+    });
+    const { timestamp } = await sourceClient.getBlock({
+        blockNumber: receipt.blockNumber,
+    });
+    const messages = getTargetChainMessages(receipt, fromConfig);
+
+    const deliveries: DestinationDelivery[] = toConfigs.map((toConfig) => {
+        const message = messages.find(
+            (m) => m.chainId === toConfig.wormholeChainId
+        );
+        return message
+            ? {
+                  chainId: toConfig.wormholeChainId,
+                  sequence: message.sequence,
+                  status: 'pending',
+              }
+            : {
+                  chainId: toConfig.wormholeChainId,
+                  status: 'failed',
+                  reason: `Source transaction ${sourceTxHash} did not target chain ${toConfig.wormholeChainId}`,
+              };
+    });
+
+    // Set by a PricesReceived event, including one seen during a check
+    let received = false;
+    let wake: (() => void) | undefined;
+    const subscriptions = await Promise.all(
+        toConfigs.map((toConfig) =>
+            onPricesReceived(
+                toConfig,
+                () => {
+                    received = true;
+                    wake?.();
+                },
+                { signal: options.signal }
+            ).catch(() => undefined)
+        )
+    );
+
+    try {
+        while (true) {
+            options.signal?.throwIfAborted();
+
+            let relayStatuses: ExecutorRelayStatus[] = [];
+            if (options.useExecutorStatus !== false) {
+                try {
+                    relayStatuses = await getRelayStatuses(
+                        sourceTxHash,
+                        fromConfig.wormholeChainId,
+                        fromConfig.network,
+                        options.client
+                    );
+                } catch {
+                    // Destination state alone still tells delivered from pending
+                }
+            }
+
+            await Promise.all(
+                toConfigs.map(async (toConfig, i) => {
+                    if (deliveries[i].status !== 'pending') return;
+                    const message = messages.find(
+                        (m) => m.chainId === toConfig.wormholeChainId
+                    )!;
+                    try {
+                        deliveries[i] = await checkDelivery(
+                            toConfig,
+                            message,
+                            timestamp,
+                            {
+                                lookbackBlocks: options.lookbackBlocks,
+                                relayStatus: relayStatuses.find(
+                                    (status) =>
+                                        status.dstChain === message.chainId
+                                ),
+                            }
+                        );
+                    } catch {
+                        // RPC errors - check again on the next poll
+                    }
+                })
+            );
+
+            if (
+                deliveries.every((delivery) => delivery.status !== 'pending') ||
+                Date.now() - startTime >= timeoutMs
+            ) {
+                return deliveries;
+            }
+
+            // Wait for the poll interval, a delivery event or an abort,
+            // whichever is first
+            if (!received) {
+                await new Promise<void>((resolve) => {
+                    const timer = setTimeout(done, pollIntervalMs);
+                    function done() {
+                        clearTimeout(timer);
+                        options.signal?.removeEventListener('abort', done);
+                        resolve();
+                    }
+                    wake = done;
+                    options.signal?.addEventListener('abort', done);
+                    if (options.signal?.aborted) done();
+                });
+            }
+            received = false;
+            wake = undefined;
+        }
+    } finally {
+        subscriptions.forEach((subscription) => subscription?.unsubscribe());
+    }
+}
@@ -0,0 +1,384 @@
+/**
+ * Deployment doctor
+ *
+ * validateConfig only checks that settings exist. The doctor checks the
+ * deployment itself: that each configured address holds the expected
+ * PriceFeed contract, that peers point at each other in both directions,
+ * that the feeder may send updates, that nothing is paused and that the
+ * Executor serves every route. Each failed check comes with a suggested fix.
+ */
+
+import {
+    hexToBytes,
+    hexToNumber,
+    toFunctionSelector,
+    type Abi,
+    type AbiFunction,
+    type Address,
+    type Hex,
+} from 'viem';
+import type {
+    ChainConfig,
+    DoctorCheck,
+    DoctorCheckKind,
+    DoctorOptions,
+    DoctorReport,
+} from '../config/types';
+import { PriceFeedSenderABI, PriceFeedReceiverABI } from '../config/abi';
+import { toUniversalAddress } from './address';
+import { getClientRegistry, getPublicClient } from './wormhole';
+import { getSignerAddress } from './signer';
+import { resolveGasLimits } from './messaging';
+import { checkRelayRequest, loadExecutorCapabilities } from './capabilities';
+import { RelayValidationError, SignerError } from './errors';
+
+const ZERO_PEER = `0x${'0'.repeat(64)}`;
+
+const CONTRACTS = {
+    sender: { name: 'PriceFeedSender', abi: PriceFeedSenderABI },
+    receiver: { name: 'PriceFeedReceiver', abi: PriceFeedReceiverABI },
+} as const;
+
+type Side = keyof typeof CONTRACTS;
+
+/**
+ * Values the bytecode pushes with PUSH0 to PUSH4
+ * Walks the opcodes so push data is never read as an opcode.
+ */
+function pushedWords(code: Hex): Set<number> {
+    const bytes = hexToBytes(code);
+    const values = new Set<number>();
+    for (let i = 0; i < bytes.length; i++) {
+        const opcode = bytes[i];
+        if (opcode < 0x5f || opcode > 0x7f) continue;
+        const size = opcode - 0x5f;
+        if (size <= 4) {
+            let value = 0;
+            for (const byte of bytes.subarray(i + 1, i + 1 + size)) {
+                value = value * 256 + byte;
+            }
+            values.add(value);
+        }
+        i += size;
+    }
+    return values;
+}
+
+/**
+ * ABI functions whose selector the dispatcher does not push
+ */
+function missingFunctions(code: Hex, abi: Abi): string[] {
+    // PUSH4 <selector>, or a shorter push for selectors with leading zero bytes
+    const pushed = pushedWords(code);
+    return abi
+        .filter((item): item is AbiFunction => item.type === 'function')
+        .filter((fn) => !pushed.has(hexToNumber(toFunctionSelector(fn))))
+        .map((fn) => fn.name);
+}
+
+/**
+ * `cast send` command for a fix, against the chain's preferred RPC
+ */
+async function castSend(
+    chainConfig: ChainConfig,
+    signature: string,
+    args: string[] = []
+): Promise<string> {
+    const [rpcUrl] = await getClientRegistry()
+        .getRpcUrls(chainConfig)
+        .catch(() => []);
+    return [
+        'cast send',
+        chainConfig.priceFeedAddress,
+        `"${signature}"`,
+        ...args,
+        `--rpc-url ${rpcUrl ?? '<rpc url>'}`,
+    ].join(' ');
+}
+
+/**
+ * Run one check, reporting a failed read as a failed check
+ */
+async function runCheck(
+    kind: DoctorCheckKind,
+    chainConfig: ChainConfig,
+    remoteChainId: number | undefined,
+    check: () => Promise<
+        Omit<DoctorCheck, 'kind' | 'chainId' | 'remoteChainId'>
+    >
+): Promise<DoctorCheck> {
+    const base = { kind, chainId: chainConfig.wormholeChainId, remoteChainId };
+    try {
+        return { ...base, ...(await check()) };
+    } catch (error) {
+        return {
+            ...base,
+            passed: false,
+            message: `Could not run the check: ${(error as Error).message}`,
+            fix: `Check that ${chainConfig.chain}'s RPC is reachable`,
+        };
+    }
+}
+
+function checkContract(chainConfig: ChainConfig, side: Side) {
+    const expected = CONTRACTS[side];
+    const other = CONTRACTS[side === 'sender' ? 'receiver' : 'sender'];
+
+    return runCheck('contract', chainConfig, undefined, async () => {
+        const address = chainConfig.priceFeedAddress;
+        if (!address) {
+            return {
+                passed: false,
+                message: `No ${expected.name} address configured`,
+                fix: `Set PRICE_FEED_* for ${chainConfig.chain}, or priceFeed in the deployment file`,
+            };
+        }
+
+        const publicClient = await getPublicClient(chainConfig);
+        const code = await publicClient.getCode({ address });
+        if (!code || code === '0x') {
+            return {
+                passed: false,
+                message: `No contract at ${address}`,
+                fix: `Deploy ${expected.name} with script/Deploy${expected.name}.s.sol and update the configured address`,
+            };
+        }
+
+        const missing = missingFunctions(code, expected.abi);
+        if (missing.length === 0) {
+            return {
+                passed: true,
+                message: `${expected.name} at ${address}`,
+            };
+        }
+        if (missingFunctions(code, other.abi).length === 0) {
+            return {
+                passed: false,
+                message: `${address} is a ${other.name}, expected a ${expected.name}`,
+                fix: `Configure the ${expected.name} address for ${chainConfig.chain} - the addresses may be swapped`,
+            };
+        }
+        return {
+            passed: false,
+            message: `${address} does not implement ${expected.name} (missing ${missing.join(', ')})`,
+            fix: `Redeploy ${expected.name} from src/ and update the configured address`,
+        };
+    });
+}
+
+function checkPaused(chainConfig: ChainConfig, side: Side) {
+    return runCheck('paused', chainConfig, undefined, async () => {
+        const publicClient = await getPublicClient(chainConfig);
+        const paused = await publicClient.readContract({
+            address: chainConfig.priceFeedAddress,
+            abi: CONTRACTS[side].abi,
+            functionName: 'paused',
+        });
+        return paused
+            ? {
+                  passed: false,
+                  message: `${CONTRACTS[side].name} is paused`,
+                  fix: `${await castSend(chainConfig, 'unpause()')} (DEFAULT_ADMIN_ROLE)`,
+              }
+            : {
+                  passed: true,
+                  message: `${CONTRACTS[side].name} is not paused`,
+              };
+    });
+}
+
+/**
+ * Check that `local` has `remote` registered as its peer for remote's chain
+ */
+function checkPeer(
+    local: ChainConfig,
+    side: Side,
+    remote: ChainConfig
+): Promise<DoctorCheck> {
+    const remoteChainId = remote.wormholeChainId;
+    return runCheck('peer', local, remoteChainId, async () => {
+        const expected = toUniversalAddress(remote.priceFeedAddress);
+        const publicClient = await getPublicClient(local);
+        const peer = (await publicClient.readContract({
+            address: local.priceFeedAddress,
+            abi: CONTRACTS[side].abi,
+            functionName: 'peers',
+            args: [remoteChainId],
+        })) as Hex;
+
+        if (peer.toLowerCase() === expected.toLowerCase()) {
+            return {
+                passed: true,
+                message: `Peer for ${remote.chain} is ${remote.priceFeedAddress}`,
+            };
+        }
+        const fix = `${await castSend(local, 'setPeer(uint16,bytes32)', [
+            String(remoteChainId),
+            expected,
+        ])} (PEER_ADMIN_ROLE)`;
+        return {
+            passed: false,
+            message:
+                peer === ZERO_PEER
+                    ? `No peer set for ${remote.chain}`
+                    : `Peer for ${remote.chain} is ${peer}, expected ${expected}`,
+            fix,
+        };
+    });
+}
+
+function checkFeederRole(source: ChainConfig, feeder: Address | undefined) {
+    return runCheck('role', source, undefined, async () => {
+        let account: Address;
+        try {
+            account = feeder ?? (await getSignerAddress(source));
+        } catch (error) {
+            if (!(error instanceof SignerError)) throw error;
+            return {
+                passed: false,
+                message:
+                    error.reason === 'not-configured'
+                        ? `No feeder to check: no signer configured for ${source.chain}`
+                        : `Cannot load the signer for ${source.chain}: ${error.message}`,
+                fix: `Configure the signer for ${source.chain} (PRIVATE_KEY_*, KEYSTORE_*, MNEMONIC_* or REMOTE_SIGNER_*), or pass the feeder address with --feeder`,
+            };
+        }
+        const publicClient = await getPublicClient(source);
+        const role = (await publicClient.readContract({
+            address: source.priceFeedAddress,
+            abi: PriceFeedSenderABI,
+            functionName: 'PRICE_FEED_ROLE',
+        })) as Hex;
+        const hasRole = await publicClient.readContract({
+            address: source.priceFeedAddress,
+            abi: PriceFeedSenderABI,
+            functionName: 'hasRole',
+            args: [role, account],
+        });
+        return hasRole
+            ? { passed: true, message: `${account} holds PRICE_FEED_ROLE` }
+            : {
+                  passed: false,
+                  message: `${account} does not hold PRICE_FEED_ROLE`,
+                  fix: `${await castSend(source, 'grantRole(bytes32,address)', [
+                      role,
+                      account,
+                  ])} (DEFAULT_ADMIN_ROLE)`,
+              };
+    });
+}
+
+function checkRoute(
+    source: ChainConfig,
+    receiver: ChainConfig,
+    capabilities: ReturnType<typeof loadExecutorCapabilities>,
+    options: DoctorOptions
+) {
+    return runCheck('route', receiver, source.wormholeChainId, async () => {
+        let loaded: Awaited<typeof capabilities>;
+        try {
+            loaded = await capabilities;
+        } catch (error) {
+            return {
+                passed: false,
+                message: `Could not load Executor capabilities: ${(error as Error).message}`,
+                fix: 'Check that the Executor API (EXECUTOR_API_URL) is reachable',
+            };
+        }
+
+        // Resolved as sendPriceUpdate does, so a route that passes here is
+        // not rejected for its gas limit when sending
+        const maxGasLimit = loaded[receiver.wormholeChainId]?.maxGasLimit;
+        const gasLimit = (
+            await resolveGasLimits(
+                [receiver],
+                options.payload,
+                options,
+                maxGasLimit ? BigInt(maxGasLimit) : undefined
+            )
+        )[receiver.wormholeChainId];
+
+        try {
+            checkRelayRequest(loaded, {
+                srcChain: source.wormholeChainId,
+                dstChain: receiver.wormholeChainId,
+                gasLimit,
+            });
+        } catch (error) {
+            if (!(error instanceof RelayValidationError)) throw error;
+            return {
+                passed: false,
+                message: error.message,
+                fix:
+                    error.reason === 'gas-limit-exceeded'
+                        ? `Lower gas.gasLimit for ${receiver.chain} to at most ${loaded[receiver.wormholeChainId].maxGasLimit}`
+                        : `The Executor does not serve ${source.chain} -> ${receiver.chain} on ${source.network}; remove the chain or choose one it serves`,
+            };
+        }
+        return {
+            passed: true,
+            message: `Executor delivers from ${source.chain}`,
+        };
+    });
+}
+
+/**
+ * Check a deployment end to end
+ *
+ * Contract checks run first; peer, role and pause checks only run on chains
+ * whose contract passed, so a wrong address is reported once. Never throws
+ * for a failed read - it is reported as a failed check.
+ */
+export async function diagnoseDeployment(
+    chains: { source: ChainConfig; receivers: ChainConfig[] },
+    options: DoctorOptions = {}
+): Promise<DoctorReport> {
+    const { source, receivers } = chains;
+    const capabilities = loadExecutorCapabilities(
+        source.network,
+        false,
+        options.client
+    );
+    // Reported by the route checks
+    capabilities.catch(() => undefined);
+
+    const [sourceContract, ...receiverContracts] = await Promise.all([
+        checkContract(source, 'sender'),
+        ...receivers.map((receiver) => checkContract(receiver, 'receiver')),
+    ]);
+
+    const sourceChecks = sourceContract.passed
+        ? Promise.all([
+              checkPaused(source, 'sender'),
+              checkFeederRole(source, options.feeder),
+              ...receivers
+                  .filter((_, i) => receiverContracts[i].passed)
+                  .map((receiver) => checkPeer(source, 'sender', receiver)),
+          ])
+        : Promise.resolve([]);
+
+    const receiverChecks = receivers.map((receiver, i) =>
+        Promise.all([
+            ...(receiverContracts[i].passed
+                ? [
+                      checkPaused(receiver, 'receiver'),
+                      ...(sourceContract.passed
+                          ? [checkPeer(receiver, 'receiver', source)]
+                          : []),
+                  ]
+                : []),
+            checkRoute(source, receiver, capabilities, options),
+        ])
+    );
+
+    const checks = [
+        sourceContract,
+        ...(await sourceChecks),
+        ...(await Promise.all(receiverChecks)).flatMap((checks, i) => [
+            receiverContracts[i],
+            ...checks,
+        ]),
+    ];
+
+    return { checks, healthy: checks.every((check) => check.passed) };
+}
@@ -0,0 +1,335 @@
+/**
+ * Typed errors for Executor and price feed operations
+ * Callers can branch on `instanceof` instead of parsing error messages
+ */
+
+import type { Address, Hash, Hex } from 'viem';
+import type {
+    ExecutorRelayStatus,
+    PriceBatchResult,
+} from '../config/types';
+
+export { DeploymentConfigError } from '../config/errors';
+
+/**
+ * A quote request for one destination chain failed after all retries
+ */
+export class ExecutorQuoteError extends Error {
+    readonly chainId: number;
+    readonly attempts: number;
+
+    constructor(chainId: number, attempts: number, cause: unknown) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(
+            `Failed to get executor quote for chain ${chainId} after ${attempts} attempt(s): ${reason}`,
+            { cause }
+        );
+        this.name = 'ExecutorQuoteError';
+        this.chainId = chainId;
+        this.attempts = attempts;
+    }
+}
+
+export type SignedQuoteErrorReason =
+    | 'malformed'
+    | 'bad-signature'
+    | 'untrusted-quoter'
+    | 'route-mismatch'
+    | 'expired';
+
+/**
+ * A signed quote could not be decoded or failed local verification
+ */
+export class SignedQuoteError extends Error {
+    readonly reason: SignedQuoteErrorReason;
+
+    constructor(
+        reason: SignedQuoteErrorReason,
+        message: string,
+        cause?: unknown
+    ) {
+        super(message, { cause });
+        this.name = 'SignedQuoteError';
+        this.reason = reason;
+    }
+}
+
+export type RelayValidationErrorReason =
+    | 'unsupported-chain'
+    | 'unsupported-prefix'
+    | 'gas-limit-exceeded'
+    | 'msg-value-exceeded'
+    | 'drop-off-exceeded';
+
+/**
+ * A relay request was rejected by preflight checks against Executor capabilities
+ * `chainId` is the destination the request was for
+ */
+export class RelayValidationError extends Error {
+    readonly reason: RelayValidationErrorReason;
+    readonly chainId: number;
+
+    constructor(
+        reason: RelayValidationErrorReason,
+        chainId: number,
+        message: string
+    ) {
+        super(message);
+        this.name = 'RelayValidationError';
+        this.reason = reason;
+        this.chainId = chainId;
+    }
+}
+
+export type RelayInstructionsErrorReason =
+    | 'malformed'
+    | 'unknown-type'
+    | 'out-of-range';
+
+/**
+ * Relay instructions could not be encoded or decoded
+ */
+export class RelayInstructionsError extends Error {
+    readonly reason: RelayInstructionsErrorReason;
+
+    constructor(reason: RelayInstructionsErrorReason, message: string) {
+        super(message);
+        this.name = 'RelayInstructionsError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * The Executor did not report a final status for every destination in time
+ */
+export class ExecutorStatusTimeoutError extends Error {
+    readonly txHash: string;
+    /** Destinations (Wormhole chain IDs) that were still not final */
+    readonly pendingChains: number[];
+    /** Last known status per destination */
+    readonly lastStatuses: Record<number, ExecutorRelayStatus | undefined>;
+
+    constructor(
+        txHash: string,
+        pendingChains: number[],
+        lastStatuses: Record<number, ExecutorRelayStatus | undefined>
+    ) {
+        super(
+            pendingChains.length > 0
+                ? `Executor relays for ${txHash} not final for chains: ${pendingChains.join(', ')}`
+                : `Executor did not report any relay for ${txHash}`
+        );
+        this.name = 'ExecutorStatusTimeoutError';
+        this.txHash = txHash;
+        this.pendingChains = pendingChains;
+        this.lastStatuses = lastStatuses;
+    }
+}
+
+export type TransactionManagerErrorReason =
+    | 'fee-cap-exceeded'
+    | 'nonce-consumed'
+    | 'timeout';
+
+/**
+ * A managed transaction could not be sent or confirmed
+ * - fee-cap-exceeded: the network fee is above the maxFeePerGas cap, nothing
+ *   was broadcast
+ * - nonce-consumed: another transaction with the same nonce was mined
+ * - timeout: none of the broadcast hashes was mined in time
+ */
+export class TransactionManagerError extends Error {
+    readonly reason: TransactionManagerErrorReason;
+    readonly nonce: number;
+    /** Every hash broadcast for the nonce */
+    readonly hashes: Hash[];
+
+    constructor(
+        reason: TransactionManagerErrorReason,
+        nonce: number,
+        hashes: Hash[],
+        message: string
+    ) {
+        super(message);
+        this.name = 'TransactionManagerError';
+        this.reason = reason;
+        this.nonce = nonce;
+        this.hashes = hashes;
+    }
+}
+
+export type PricePayloadErrorReason =
+    | 'empty-array'
+    | 'array-length-mismatch'
+    | 'malformed'
+    | 'too-large';
+
+/**
+ * A price payload breaks the rules PriceFeedReceiver enforces, or cannot be decoded
+ * `too-large`: a single token does not fit in the delivery gas limit
+ */
+export class PricePayloadError extends Error {
+    readonly reason: PricePayloadErrorReason;
+
+    constructor(
+        reason: PricePayloadErrorReason,
+        message: string,
+        cause?: unknown
+    ) {
+        super(message, { cause });
+        this.name = 'PricePayloadError';
+        this.reason = reason;
+    }
+}
+
+export type VaaErrorReason =
+    | 'malformed'
+    | 'guardian-set-mismatch'
+    | 'guardian-set-expired'
+    | 'bad-signature'
+    | 'no-quorum'
+    | 'emitter-mismatch';
+
+/**
+ * A VAA could not be parsed or failed verification against a guardian set
+ */
+export class VaaError extends Error {
+    readonly reason: VaaErrorReason;
+
+    constructor(reason: VaaErrorReason, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'VaaError';
+        this.reason = reason;
+    }
+}
+
+export type RedeliveryErrorReason =
+    | 'not-targeted'
+    | 'already-delivered'
+    | 'vaa-not-found'
+    | 'reverted';
+
+/**
+ * A price update message could not be redelivered
+ * - not-targeted: the source transaction sent no message to the chain
+ * - already-delivered: the receiver has consumed the sequence
+ * - vaa-not-found: the guardians have not signed the message in time
+ * - reverted: the executeVAAv1 transaction reverted
+ */
+export class RedeliveryError extends Error {
+    readonly reason: RedeliveryErrorReason;
+    readonly chainId: number;
+    readonly sequence?: bigint;
+
+    constructor(
+        reason: RedeliveryErrorReason,
+        chainId: number,
+        sequence: bigint | undefined,
+        message: string,
+        cause?: unknown
+    ) {
+        super(message, { cause });
+        this.name = 'RedeliveryError';
+        this.reason = reason;
+        this.chainId = chainId;
+        this.sequence = sequence;
+    }
+}
+
+export type SignerErrorReason =
+    | 'not-configured'
+    | 'malformed'
+    | 'bad-password'
+    | 'remote-error';
+
+/**
+ * The signer for a chain could not be loaded or failed to sign
+ */
+export class SignerError extends Error {
+    readonly reason: SignerErrorReason;
+
+    constructor(reason: SignerErrorReason, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'SignerError';
+        this.reason = reason;
+    }
+}
+
+export type PriceFeedRevertReason =
+    | 'array-length-mismatch'
+    | 'empty-array'
+    | 'insufficient-value'
+    | 'paused'
+    | 'unauthorized'
+    | 'unknown';
+
+/**
+ * A PriceFeed contract call reverted (decoded from the custom error)
+ * For `unauthorized`, `account` lacks `role`
+ */
+export class PriceFeedRevertError extends Error {
+    readonly reason: PriceFeedRevertReason;
+    /** Solidity error name, if the revert data could be decoded */
+    readonly errorName?: string;
+    readonly account?: Address;
+    readonly role?: Hex;
+
+    constructor(
+        reason: PriceFeedRevertReason,
+        message: string,
+        details: { errorName?: string; account?: Address; role?: Hex } = {},
+        cause?: unknown
+    ) {
+        super(message, { cause });
+        this.name = 'PriceFeedRevertError';
+        this.reason = reason;
+        this.errorName = details.errorName;
+        this.account = details.account;
+        this.role = details.role;
+    }
+}
+
+/**
+ * A price update split into several transactions failed part way through
+ * The transactions in `completed` were sent; `unsentSymbols` were not.
+ */
+export class PartialPriceUpdateError extends Error {
+    readonly completed: PriceBatchResult[];
+    readonly unsentSymbols: string[];
+
+    constructor(
+        completed: PriceBatchResult[],
+        unsentSymbols: string[],
+        cause: unknown
+    ) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(
+            `Price update failed after ${completed.length} transaction(s), ${unsentSymbols.length} symbol(s) not sent: ${reason}`,
+            { cause }
+        );
+        this.name = 'PartialPriceUpdateError';
+        this.completed = completed;
+        this.unsentSymbols = unsentSymbols;
+    }
+}
+
+/**
+ * The sender account cannot pay for a price update (checked before sending
+ * and in dry runs)
+ */
+export class InsufficientBalanceError extends Error {
+    readonly account: Address;
+    readonly balance: bigint;
+    /** Total the updatePrices call needs, in wei */
+    readonly required: bigint;
+
+    constructor(account: Address, balance: bigint, required: bigint) {
+        super(
+            `Insufficient balance for transaction: ${account} has ${balance} wei, needs ${required}`
+        );
+        this.name = 'InsufficientBalanceError';
+        this.account = account;
+        this.balance = balance;
+        this.required = required;
+    }
+}
@@ -1,14 +1,21 @@
 /**
- * Executor API client for getting quotes and relay status
+ * Executor API helpers for getting quotes and relay status
+ * The free functions use the network's default HTTP ExecutorClient
  * API Docs: https://github.com/wormholelabs-xyz/example-messaging-executor/blob/main/api-docs/main.tsp
  */
 
-import type { Network, Chain } from '@wormhole-foundation/sdk-base';
+import type { Network } from '@wormhole-foundation/sdk-base';
 import type {
     ExecutorQuoteParams,
     ExecutorQuote,
     ExecutorCapabilities,
+    ChainQuoteResult,
+    MultiChainQuoteOptions,
+    ExecutorStatusResponse,
 } from '../config/types';
+import { ExecutorQuoteError, SignedQuoteError } from './errors';
+import { verifySignedQuote } from './signedQuote';
+import { getDefaultExecutorClient } from './executorClient';
 
 /**
  * Calculate total cost including message fee
@@ -39,19 +46,11 @@ export async function getExecutorApiUrl(network: Network): Promise<string> {
 export async function getExecutorCapabilities(
     network: Network = 'Testnet'
 ): Promise<Record<number, ExecutorCapabilities>> {
-    const apiUrl = await getExecutorApiUrl(network);
-    const url = `${apiUrl}/capabilities`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch capabilities: ${response.statusText}`);
-    }
-
-    return (await response.json()) as Record<number, ExecutorCapabilities>;
+    return getDefaultExecutorClient(network).getCapabilities();
 }
 
 /**
- * Get a quote from the Executor API using SDK's fetchQuote function
+ * Get a quote from the Executor API
  *
  * The Executor provides automatic cross-chain message delivery.
  * This function requests a signed quote for delivering a message.
@@ -60,49 +59,104 @@ export async function getExecutorQuote(
     params: ExecutorQuoteParams,
     network: Network = 'Testnet'
 ): Promise<ExecutorQuote> {
-    const apiUrl = await getExecutorApiUrl(network);
+    return getDefaultExecutorClient(network).getQuote(params);
+}
 
-    const sdkDefs = (await import(
-        '@wormhole-foundation/sdk-definitions'
-    )) as any;
-    const quote = await sdkDefs.fetchQuote(
-        apiUrl,
-        params.srcChain,
-        params.dstChain,
-        params.relayInstructions
-    );
+/**
+ * Get a quote for one destination, retrying with exponential backoff
+ * Never throws - failures are reported as an ExecutorQuoteError result,
+ * or a SignedQuoteError if the quote fails verification
+ */
+async function getQuoteWithRetry(
+    params: ExecutorQuoteParams,
+    network: Network,
+    options: MultiChainQuoteOptions
+): Promise<ChainQuoteResult> {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    const maxDelayMs = options.maxDelayMs ?? 5000;
+    let delayMs = options.initialDelayMs ?? 500;
+    let lastError: unknown;
+    const client = options.client ?? getDefaultExecutorClient(network);
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        if (attempt > 1) {
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+            delayMs = Math.min(delayMs * 2, maxDelayMs);
+        }
+
+        let quote: ExecutorQuote;
+        try {
+            quote = options.cache
+                ? await options.cache.getQuote(params, network, options.client)
+                : await client.getQuote(params);
+        } catch (error) {
+            lastError = error;
+            continue;
+        }
+
+        // A quote that fails verification will not get better on retry
+        if (options.trustedQuoters) {
+            try {
+                await verifySignedQuote(quote.signedQuote, {
+                    trustedQuoters: options.trustedQuoters,
+                    srcChain: params.srcChain,
+                    dstChain: params.dstChain,
+                });
+            } catch (error) {
+                options.cache?.invalidate(params, network, options.client);
+                return {
+                    chainId: params.dstChain,
+                    ok: false,
+                    error: error as SignedQuoteError,
+                    attempts: attempt,
+                };
+            }
+        }
+
+        return {
+            chainId: params.dstChain,
+            ok: true,
+            quote,
+            attempts: attempt,
+        };
+    }
 
-    const estimatedCost = BigInt(quote.estimatedCost);
     return {
-        signedQuote: quote.signedQuote,
-        estimatedCost: estimatedCost,
+        chainId: params.dstChain,
+        ok: false,
+        error: new ExecutorQuoteError(params.dstChain, maxAttempts, lastError),
+        attempts: maxAttempts,
     };
 }
 
 /**
  * Get quotes for multiple destination chains
  * Useful for multi-chain price updates
+ *
+ * Quotes are fetched concurrently and each destination is retried on its own,
+ * so one unhealthy chain does not fail the whole batch. Results are returned
+ * in the same order as `dstChains`. Pass `trustedQuoters` to verify each
+ * signed quote locally before it is accepted.
  */
 export async function getMultiChainQuotes(
     srcChain: number,
     dstChains: Array<{ chainId: number; relayInstructions: string }>,
-    network: Network = 'Testnet'
-): Promise<ExecutorQuote[]> {
-    const quotes: ExecutorQuote[] = [];
-
-    for (const dst of dstChains) {
-        const quote = await getExecutorQuote(
-            {
-                srcChain,
-                dstChain: dst.chainId,
-                relayInstructions: dst.relayInstructions,
-            },
-            network
-        );
-        quotes.push(quote);
-    }
-
-    return quotes;
+    network: Network = 'Testnet',
+    options: MultiChainQuoteOptions = {}
+): Promise<ChainQuoteResult[]> {
+    return Promise.all(
+        dstChains.map((dst) =>
+            getQuoteWithRetry(
+                {
+                    srcChain,
+                    dstChain: dst.chainId,
+                    relayInstructions: dst.relayInstructions,
+                },
+                network,
+                options
+            )
+        )
+    );
 }
 
 /**
@@ -114,78 +168,6 @@ export async function checkTransactionStatus(
     txHash: string,
     chainId?: number,
     network: Network = 'Testnet'
-): Promise<
-    Array<{
-        txHash: string;
-        chainId: number;
-        blockNumber: string;
-        blockTime: string;
-        status: string;
-    }>
-> {
-    const apiUrl = await getExecutorApiUrl(network);
-    const url = `${apiUrl}/status/tx`;
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            txHash,
-            chainId,
-        }),
-    });
-
-    if (!response.ok) {
-        throw new Error(`Failed to check status: ${response.statusText}`);
-    }
-
-    return (await response.json()) as Array<{
-        txHash: string;
-        chainId: number;
-        blockNumber: string;
-        blockTime: string;
-        status: string;
-    }>;
-}
-
-/**
- * Poll for Executor to process the VAA and check its status
- * Uses the SDK's fetchStatus function
- * Returns an array of StatusResponse objects when the transaction is found
- */
-export async function pollForExecutorStatus(
-    chain: Chain,
-    txHash: string,
-    network: Network = 'Testnet',
-    timeoutMs: number = 60000
-): Promise<any> {
-    const startTime = Date.now();
-
-    const sdkDefs = (await import(
-        '@wormhole-foundation/sdk-definitions'
-    )) as any;
-    const apiUrl = await getExecutorApiUrl(network);
-
-    while (Date.now() - startTime < timeoutMs) {
-        try {
-            const status = await sdkDefs.fetchStatus(apiUrl, txHash, chain);
-
-            if (Array.isArray(status) && status.length > 0) {
-                return status;
-            }
-        } catch (error) {
-            // Ignore errors and continue polling
-        }
-
-        await new Promise((resolve) => setTimeout(resolve, 3000));
-    }
-
-    return [
-        {
-            status: 'timeout',
-            message: 'Executor did not process transaction within timeout',
-        },
-    ];
+): Promise<ExecutorStatusResponse[]> {
+    return getDefaultExecutorClient(network).getStatus(txHash, chainId);
 }
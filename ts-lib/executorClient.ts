@@ -0,0 +1,106 @@
+/**
+ * HTTP implementation of ExecutorClient for the Executor API
+ * API Docs: https://github.com/wormholelabs-xyz/example-messaging-executor/blob/main/api-docs/main.tsp
+ */
+
+import type { Network } from '@wormhole-foundation/sdk-base';
+import type {
+    ExecutorCapabilities,
+    ExecutorClient,
+    ExecutorQuote,
+    ExecutorStatusResponse,
+} from '../config/types';
+import { getExecutorApiUrl } from '../config/relay';
+
+export interface HttpExecutorClientOptions {
+    /** Executor API base URL including the /v0 path (default: by network, or EXECUTOR_API_URL) */
+    baseUrl?: string;
+    network?: Network;
+    /** fetch implementation (default: global fetch) */
+    fetch?: typeof fetch;
+}
+
+/**
+ * Create an ExecutorClient that talks to an Executor HTTP API
+ */
+export function createHttpExecutorClient(
+    options: HttpExecutorClientOptions = {}
+): ExecutorClient {
+    const baseUrl = (
+        options.baseUrl ?? getExecutorApiUrl(options.network ?? 'Testnet')
+    ).replace(/\/$/, '');
+    const doFetch = options.fetch ?? fetch;
+
+    async function request<T>(
+        path: string,
+        what: string,
+        body?: unknown
+    ): Promise<T> {
+        const response = await doFetch(`${baseUrl}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to ${what}: ${response.statusText}`);
+        }
+
+        return (await response.json()) as T;
+    }
+
+    return {
+        getCapabilities() {
+            return request<Record<number, ExecutorCapabilities>>(
+                '/capabilities',
+                'fetch capabilities'
+            );
+        },
+
+        async getQuote(params) {
+            const quote = await request<{
+                signedQuote: ExecutorQuote['signedQuote'];
+                estimatedCost?: string;
+            }>('/quote', 'fetch signed quote', {
+                srcChain: params.srcChain,
+                dstChain: params.dstChain,
+                relayInstructions: params.relayInstructions,
+            });
+
+            if (quote.estimatedCost === undefined) {
+                throw new Error('Executor quote is missing estimatedCost');
+            }
+
+            return {
+                signedQuote: quote.signedQuote,
+                estimatedCost: BigInt(quote.estimatedCost),
+            };
+        },
+
+        getStatus(txHash, srcChain) {
+            return request<ExecutorStatusResponse[]>(
+                '/status/tx',
+                'check status',
+                { txHash, chainId: srcChain }
+            );
+        },
+    };
+}
+
+const defaultClients = new Map<Network, ExecutorClient>();
+
+/**
+ * Shared HTTP client for the network's public Executor API
+ */
+export function getDefaultExecutorClient(
+    network: Network = 'Testnet'
+): ExecutorClient {
+    let client = defaultClients.get(network);
+    if (!client) {
+        client = createHttpExecutorClient({ network });
+        defaultClients.set(network, client);
+    }
+    return client;
+}
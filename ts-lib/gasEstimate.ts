@@ -0,0 +1,273 @@
+/**
+ * Destination gas-limit estimation for price updates
+ *
+ * A delivery cannot be simulated before the guardians sign its VAA, so the
+ * PriceFeedReceiver cost is modelled from the encoded payload and the state
+ * of each destination:
+ * - VAA verification, scaled by the destination guardian quorum
+ * - calldata, hashing and abi.decode, by VAA size
+ * - one price SSTORE per token, new slot or update depending on what is stored
+ * Past deliveries (gasUsed of PricesReceived transactions) raise the fixed
+ * overhead when the model under-estimates it.
+ */
+
+import { size, type Hash } from 'viem';
+import type {
+    ChainConfig,
+    DestinationGasEstimate,
+    GasEstimateOptions,
+    PricePayload,
+} from '../config/types';
+import { PriceFeedEventsABI, PriceFeedReceiverABI } from '../config/abi';
+import { getPublicClient } from './wormhole';
+import { encodePricePayload } from './payload';
+import { getGuardianSet } from './vaa';
+import { PricePayloadError } from './errors';
+
+// Intrinsic gas, VAA parsing, peer lookup, replay protection and the event
+const BASE_DELIVERY_GAS = 75_000n;
+// ecrecover plus guardian index and set checks, per signature
+const SIGNATURE_VERIFY_GAS = 6_500n;
+// Calldata plus copying, hashing and decoding, per VAA byte
+const GAS_PER_VAA_BYTE = 24n;
+// Loop, memory and the keccak of the token name, per token
+const GAS_PER_TOKEN = 2_500n;
+const NEW_SLOT_GAS = 22_100n;
+const UPDATED_SLOT_GAS = 5_000n;
+
+// VAA header without signatures, and body fields before the payload
+const VAA_HEADER_BYTES = 6;
+const VAA_SIGNATURE_BYTES = 66;
+const VAA_BODY_HEADER_BYTES = 51;
+
+// 13 of 19 guardians - used when the guardian set cannot be read
+const DEFAULT_GUARDIAN_QUORUM = 13;
+
+const MAX_HISTORY_DELIVERIES = 5;
+
+/**
+ * Model the receiver gas for one delivery of a price update
+ * `newSlots` is the number of tokens with no stored price on the destination
+ */
+export function estimateReceiverGas(
+    symbols: string[],
+    prices: bigint[],
+    guardianQuorum: number = DEFAULT_GUARDIAN_QUORUM,
+    newSlots: number = symbols.length
+): { fixedGas: bigint; variableGas: bigint } {
+    const payload = encodePricePayload(symbols, prices);
+    const vaaBytes =
+        VAA_HEADER_BYTES +
+        VAA_SIGNATURE_BYTES * guardianQuorum +
+        VAA_BODY_HEADER_BYTES +
+        size(payload);
+    const updatedSlots = symbols.length - newSlots;
+
+    return {
+        fixedGas:
+            BASE_DELIVERY_GAS + SIGNATURE_VERIFY_GAS * BigInt(guardianQuorum),
+        variableGas:
+            BigInt(vaaBytes) * GAS_PER_VAA_BYTE +
+            BigInt(symbols.length) * GAS_PER_TOKEN +
+            BigInt(newSlots) * NEW_SLOT_GAS +
+            BigInt(updatedSlots) * UPDATED_SLOT_GAS,
+    };
+}
+
+/**
+ * Number of guardian signatures a VAA needs on the chain (2/3 + 1)
+ * Falls back to 13 of 19 if the guardian set cannot be read
+ */
+export async function getGuardianQuorum(toConfig: ChainConfig): Promise<number> {
+    try {
+        const guardianSet = await getGuardianSet(toConfig);
+        return Math.floor((guardianSet.keys.length * 2) / 3) + 1;
+    } catch {
+        return DEFAULT_GUARDIAN_QUORUM;
+    }
+}
+
+/**
+ * Split a price update into batches whose delivery stays within `maxGasLimit`
+ *
+ * Batches keep the original order and are sized with the receiver model,
+ * counting every token as a new slot, plus the safety margin. Throws
+ * PricePayloadError if a single token does not fit.
+ */
+export function splitPriceBatch(
+    symbols: string[],
+    prices: bigint[],
+    maxGasLimit: bigint,
+    options: { guardianQuorum?: number; safetyMarginBps?: number } = {}
+): PricePayload[] {
+    const safetyMarginBps = BigInt(options.safetyMarginBps ?? 2500);
+    const fits = (batch: PricePayload) => {
+        const { fixedGas, variableGas } = estimateReceiverGas(
+            batch.symbols,
+            batch.prices,
+            options.guardianQuorum
+        );
+        const gasLimit =
+            ((fixedGas + variableGas) * (10_000n + safetyMarginBps)) / 10_000n;
+        return gasLimit <= maxGasLimit;
+    };
+
+    const batches: PricePayload[] = [];
+    let current: PricePayload = { symbols: [], prices: [] };
+
+    symbols.forEach((symbol, i) => {
+        const next = {
+            symbols: [...current.symbols, symbol],
+            prices: [...current.prices, prices[i]],
+        };
+        if (fits(next)) {
+            current = next;
+            return;
+        }
+
+        const single = { symbols: [symbol], prices: [prices[i]] };
+        if (!fits(single)) {
+            throw new PricePayloadError(
+                'too-large',
+                `Price update for ${symbol} does not fit in a delivery gas limit of ${maxGasLimit}`
+            );
+        }
+        batches.push(current);
+        current = single;
+    });
+
+    if (current.symbols.length > 0) batches.push(current);
+    return batches;
+}
+
+/**
+ * Count tokens without a stored price on the receiver (each costs a new slot)
+ * Repeated names are written to a slot that already holds a value
+ */
+async function countNewSlots(
+    toConfig: ChainConfig,
+    symbols: string[]
+): Promise<number> {
+    const unique = [...new Set(symbols)];
+    try {
+        const publicClient = await getPublicClient(toConfig);
+        const stored = await Promise.all(
+            unique.map((symbol) =>
+                publicClient.readContract({
+                    address: toConfig.priceFeedAddress,
+                    abi: PriceFeedReceiverABI,
+                    functionName: 'prices',
+                    args: [symbol],
+                })
+            )
+        );
+        return stored.filter((price) => (price as bigint) === 0n).length;
+    } catch {
+        return unique.length;
+    }
+}
+
+/**
+ * Largest fixed overhead seen in recent deliveries to the receiver
+ * Returns undefined if there are none or the logs cannot be read
+ */
+async function getHistoricalFixedGas(
+    toConfig: ChainConfig,
+    historyBlocks: bigint
+): Promise<bigint | undefined> {
+    try {
+        const publicClient = await getPublicClient(toConfig);
+        const latest = await publicClient.getBlockNumber();
+        const logs = await publicClient.getContractEvents({
+            address: toConfig.priceFeedAddress,
+            abi: PriceFeedEventsABI,
+            eventName: 'PricesReceived',
+            fromBlock: latest > historyBlocks ? latest - historyBlocks : 0n,
+            toBlock: latest,
+            strict: true,
+        });
+
+        const deliveries = logs.slice(-MAX_HISTORY_DELIVERIES);
+        const overheads = await Promise.all(
+            deliveries.map(async (log) => {
+                const hash = log.transactionHash as Hash;
+                const [receipt, tx] = await Promise.all([
+                    publicClient.getTransactionReceipt({ hash }),
+                    publicClient.getTransaction({ hash }),
+                ]);
+                const { count } = log.args;
+                // Assume every slot was an update - the lowest variable cost,
+                // so the overhead attributed to the fixed part is the highest
+                const variableGas =
+                    BigInt(size(tx.input)) * GAS_PER_VAA_BYTE +
+                    count * (GAS_PER_TOKEN + UPDATED_SLOT_GAS);
+                return receipt.gasUsed - variableGas;
+            })
+        );
+
+        return overheads.length > 0
+            ? overheads.reduce((max, gas) => (gas > max ? gas : max))
+            : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Estimate the gas limit for delivering a price update to one destination
+ * The destination is read for its guardian set, stored prices and past
+ * deliveries; any read that fails falls back to the conservative model.
+ */
+export async function estimateDeliveryGas(
+    toConfig: ChainConfig,
+    symbols: string[],
+    prices: bigint[],
+    options: GasEstimateOptions = {}
+): Promise<DestinationGasEstimate> {
+    const safetyMarginBps = BigInt(
+        options.safetyMarginBps ?? toConfig.gas?.safetyMarginBps ?? 2500
+    );
+
+    const [quorum, newSlots, historicalFixedGas] = await Promise.all([
+        getGuardianQuorum(toConfig),
+        countNewSlots(toConfig, symbols),
+        options.useHistory === false
+            ? undefined
+            : getHistoricalFixedGas(toConfig, options.historyBlocks ?? 5000n),
+    ]);
+
+    const { fixedGas, variableGas } = estimateReceiverGas(
+        symbols,
+        prices,
+        quorum,
+        newSlots
+    );
+    const fromHistory =
+        historicalFixedGas !== undefined && historicalFixedGas > fixedGas;
+    const estimatedGas =
+        (fromHistory ? historicalFixedGas : fixedGas) + variableGas;
+
+    return {
+        chainId: toConfig.wormholeChainId,
+        gasLimit: (estimatedGas * (10_000n + safetyMarginBps)) / 10_000n,
+        estimatedGas,
+        source: fromHistory ? 'history' : 'model',
+    };
+}
+
+/**
+ * Estimate the gas limit for every destination of a price update
+ * Results are in the same order as `toConfigs`
+ */
+export async function estimateDeliveryGasLimits(
+    toConfigs: ChainConfig[],
+    symbols: string[],
+    prices: bigint[],
+    options: GasEstimateOptions = {}
+): Promise<DestinationGasEstimate[]> {
+    return Promise.all(
+        toConfigs.map((toConfig) =>
+            estimateDeliveryGas(toConfig, symbols, prices, options)
+        )
+    );
+}
@@ -0,0 +1,293 @@
+/**
+ * In-memory ExecutorClient for offline tests
+ *
+ * Signs deterministic quotes with a local quoter key and returns relay
+ * statuses from a script, so the quote -> send -> status flow can run
+ * without the Executor API.
+ */
+
+import { keccak256, numberToHex, concat, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type {
+    ExecutorCapabilities,
+    ExecutorClient,
+    ExecutorQuoteParams,
+    ExecutorStatusResponse,
+    RelayStatusKind,
+} from '../config/types';
+import { signQuote } from './signedQuote';
+import { decodeRelayInstructions, totalRelayInstructions } from './relay';
+
+/** Well-known test key (anvil account #1) - never use with real funds */
+export const TEST_QUOTER_PRIVATE_KEY: Hex =
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+export interface QuotePricing {
+    /** Flat fee in source native units (wei) */
+    baseFee: bigint;
+    /** Destination gas price in destination native units (wei) */
+    dstGasPrice: bigint;
+    /** USD price of the source native token, 10 decimals */
+    srcPrice: bigint;
+    /** USD price of the destination native token, 10 decimals */
+    dstPrice: bigint;
+}
+
+export interface InMemoryExecutorClientOptions {
+    quoterPrivateKey?: Hex;
+    /** Address the relay payment goes to (default: the quoter) */
+    payeeAddress?: Hex;
+    /** Wormhole chain IDs served with default capabilities (default: this repo's testnets) */
+    chains?: number[];
+    /** Capabilities per Wormhole chain ID; overrides `chains` */
+    capabilities?: Record<number, ExecutorCapabilities>;
+    /** Pricing per destination chain; falls back to `defaultPricing` */
+    pricing?: Record<number, QuotePricing>;
+    defaultPricing?: QuotePricing;
+    /** Quote validity in seconds (default 300; negative issues expired quotes) */
+    quoteTtlSeconds?: number;
+    /** Clock for quote expiry (default: Date.now) */
+    now?: () => number;
+    /**
+     * Statuses reported for a source tx nobody scripted, once per served
+     * chain other than the source (default: none - unknown txs report no relays)
+     */
+    autoStatusSteps?: RelayStatusKind[];
+}
+
+/**
+ * Settings that can be changed while the client is in use
+ */
+export type InMemoryExecutorSettings = Pick<
+    InMemoryExecutorClientOptions,
+    'pricing' | 'defaultPricing' | 'quoteTtlSeconds' | 'autoStatusSteps'
+>;
+
+/**
+ * In-memory client with hooks for scripting relay status transitions
+ */
+export interface InMemoryExecutorClient extends ExecutorClient {
+    /**
+     * Script the statuses reported for one destination of a source tx
+     * Each getStatus call reports the next step; the last step repeats
+     */
+    scriptStatus(
+        txHash: string,
+        srcChain: number,
+        dstChain: number,
+        steps: RelayStatusKind[]
+    ): void;
+    /** Update pricing, quote expiry or automatic statuses */
+    configure(settings: InMemoryExecutorSettings): void;
+    /** Address that signs the quotes - add it to the trusted quoters */
+    readonly quoterAddress: Address;
+    /** Quote requests received so far, in order */
+    readonly quoteRequests: ExecutorQuoteParams[];
+}
+
+// Sepolia, Base Sepolia, Polygon Amoy
+const DEFAULT_CHAINS = [10002, 10004, 10007];
+
+const DEFAULT_CAPABILITIES: ExecutorCapabilities = {
+    requestPrefixes: ['ERV1'],
+    gasDropOffLimit: '0',
+    maxGasLimit: '10000000',
+    maxMsgValue: '0',
+};
+
+const DEFAULT_PRICING: QuotePricing = {
+    baseFee: 100_000_000_000_000n, // 0.0001 native
+    dstGasPrice: 1_000_000_000n, // 1 gwei
+    srcPrice: 30_000_000_000_000n, // $3000
+    dstPrice: 30_000_000_000_000n, // $3000
+};
+
+/**
+ * Estimate the relay cost in source native units
+ * baseFee + (gasLimit * dstGasPrice + value) converted at dstPrice/srcPrice
+ * where value is msg.value plus any gas drop-off
+ */
+function estimateCost(
+    pricing: QuotePricing,
+    gasLimit: bigint,
+    value: bigint
+): bigint {
+    const dstCost = gasLimit * pricing.dstGasPrice + value;
+    return pricing.baseFee + (dstCost * pricing.dstPrice) / pricing.srcPrice;
+}
+
+/**
+ * Map a scripted status onto what the real API would report
+ */
+function toStatusRecord(
+    txHash: string,
+    srcChain: number,
+    dstChain: number,
+    step: RelayStatusKind
+): ExecutorStatusResponse {
+    const requestId = keccak256(
+        concat([txHash as Hex, numberToHex(dstChain, { size: 2 })])
+    );
+    const record: ExecutorStatusResponse = {
+        id: requestId,
+        txHash,
+        chainId: srcChain,
+        status: step === 'executed' ? 'submitted' : step,
+        requestForExecution: { dstChain },
+    };
+
+    if (step === 'executed') {
+        record.txs = [
+            { txHash: keccak256(requestId), chainId: dstChain, cost: '0' },
+        ];
+    }
+    if (step === 'error') {
+        record.status = 'failed';
+        record.failureCause = 'Scripted failure';
+    }
+
+    return record;
+}
+
+/**
+ * Create an in-memory ExecutorClient
+ */
+export function createInMemoryExecutorClient(
+    options: InMemoryExecutorClientOptions = {}
+): InMemoryExecutorClient {
+    const quoterPrivateKey = options.quoterPrivateKey ?? TEST_QUOTER_PRIVATE_KEY;
+    const quoter = privateKeyToAccount(quoterPrivateKey);
+    const payeeAddress = options.payeeAddress ?? quoter.address;
+    const now = options.now ?? Date.now;
+    const settings: InMemoryExecutorSettings = {
+        pricing: options.pricing,
+        defaultPricing: options.defaultPricing,
+        quoteTtlSeconds: options.quoteTtlSeconds,
+        autoStatusSteps: options.autoStatusSteps,
+    };
+
+    const scripts = new Map<
+        string,
+        Array<{
+            srcChain: number;
+            dstChain: number;
+            steps: RelayStatusKind[];
+            index: number;
+        }>
+    >();
+    const quoteRequests: ExecutorQuoteParams[] = [];
+
+    const capabilities =
+        options.capabilities ??
+        Object.fromEntries(
+            (options.chains ?? DEFAULT_CHAINS).map((chainId) => [
+                chainId,
+                DEFAULT_CAPABILITIES,
+            ])
+        );
+
+    function scriptStatus(
+        txHash: string,
+        srcChain: number,
+        dstChain: number,
+        steps: RelayStatusKind[]
+    ) {
+        if (steps.length === 0) {
+            throw new Error('Status script needs at least one step');
+        }
+        const key = txHash.toLowerCase();
+        const entries = (scripts.get(key) ?? []).filter(
+            (entry) => entry.dstChain !== dstChain
+        );
+        entries.push({ srcChain, dstChain, steps, index: 0 });
+        scripts.set(key, entries);
+    }
+
+    return {
+        quoterAddress: quoter.address,
+        quoteRequests,
+        scriptStatus,
+
+        configure(update) {
+            Object.assign(settings, update);
+        },
+
+        async getCapabilities() {
+            return capabilities;
+        },
+
+        async getQuote(params) {
+            quoteRequests.push(params);
+
+            if (!capabilities[params.dstChain]) {
+                throw new Error(
+                    `Failed to fetch signed quote: unsupported chain ${params.dstChain}`
+                );
+            }
+
+            const pricing =
+                settings.pricing?.[params.dstChain] ??
+                settings.defaultPricing ??
+                DEFAULT_PRICING;
+            const quoteTtlSeconds = settings.quoteTtlSeconds ?? 300;
+            const { gasLimit, msgValue, dropOff } = totalRelayInstructions(
+                decodeRelayInstructions(params.relayInstructions ?? '0x')
+            );
+
+            const signedQuote = await signQuote(
+                {
+                    payeeAddress,
+                    srcChain: params.srcChain,
+                    dstChain: params.dstChain,
+                    expiryTime: new Date(now() + quoteTtlSeconds * 1000),
+                    ...pricing,
+                },
+                quoterPrivateKey
+            );
+
+            return {
+                signedQuote,
+                estimatedCost: estimateCost(
+                    pricing,
+                    gasLimit,
+                    msgValue + dropOff
+                ),
+            };
+        },
+
+        async getStatus(txHash, srcChain) {
+            const autoSteps = settings.autoStatusSteps ?? [];
+            if (
+                !scripts.has(txHash.toLowerCase()) &&
+                srcChain !== undefined &&
+                autoSteps.length > 0
+            ) {
+                for (const dstChain of Object.keys(capabilities).map(Number)) {
+                    if (dstChain !== srcChain) {
+                        scriptStatus(txHash, srcChain, dstChain, autoSteps);
+                    }
+                }
+            }
+
+            const entries = scripts.get(txHash.toLowerCase()) ?? [];
+            return entries
+                .filter(
+                    (entry) =>
+                        srcChain === undefined || entry.srcChain === srcChain
+                )
+                .map((entry) => {
+                    const step = entry.steps[entry.index];
+                    entry.index = Math.min(
+                        entry.index + 1,
+                        entry.steps.length - 1
+                    );
+                    return toStatusRecord(
+                        txHash,
+                        entry.srcChain,
+                        entry.dstChain,
+                        step
+                    );
+                });
+        },
+    };
+}
@@ -4,9 +4,22 @@
  * This library provides reusable utilities for:
  * - Address conversion (EVM <-> Wormhole universal)
  * - Executor API interactions (quotes, status)
- * - Relay instructions creation
+ * - Typed relay status tracking per destination
+ * - Sequence-accurate delivery confirmation on destination chains
+ * - Manual redelivery of messages the Executor did not deliver
+ * - Signed quote decoding and verification
+ * - Relay instructions encoding and decoding
+ * - Price payload encoding and decoding (mirrors the Solidity abi.encode)
+ * - VAA parsing and guardian signature verification
  * - Wormhole SDK context and chain utilities
+ * - Memoized viem clients with RPC failover and rate limiting
+ * - Signers from private keys, keystores, mnemonics or remote signers
  * - Cross-chain messaging (price feed updates)
+ * - Price consistency checks across the source and receivers
+ * - Deployment checks (contracts, peers, roles, pause state, Executor routes)
+ * - Persistent event indexing with reorg rollback
+ * - Price feed event subscriptions (WebSocket, or adaptive block polling)
+ * - Local nonce management and stuck-transaction replacement
  *
  * Now uses viem instead of ethers for all blockchain interactions.
  * No logging - suitable for both CLI and frontend usage
@@ -19,9 +32,17 @@ export { toUniversalAddress, fromUniversalAddress } from './address';
 export {
     DEFAULT_GAS_LIMIT,
     DEFAULT_MSG_VALUE,
+    GAS_INSTRUCTION_TYPE,
+    GAS_DROP_OFF_INSTRUCTION_TYPE,
     createRelayInstructions,
+    encodeRelayInstructions,
+    decodeRelayInstructions,
+    totalRelayInstructions,
 } from './relay';
 
+// Price payload codec
+export { encodePricePayload, decodePricePayload } from './payload';
+
 // Executor API
 export {
     getExecutorApiUrl,
@@ -29,23 +50,146 @@ export {
     getExecutorQuote,
     getMultiChainQuotes,
     checkTransactionStatus,
-    pollForExecutorStatus,
     calculateTotalCost,
 } from './executor';
 
+// Executor clients
+export {
+    createHttpExecutorClient,
+    getDefaultExecutorClient,
+} from './executorClient';
+export type { HttpExecutorClientOptions } from './executorClient';
+export {
+    TEST_QUOTER_PRIVATE_KEY,
+    createInMemoryExecutorClient,
+} from './inMemoryExecutorClient';
+export type {
+    InMemoryExecutorClient,
+    InMemoryExecutorClientOptions,
+    InMemoryExecutorSettings,
+    QuotePricing,
+} from './inMemoryExecutorClient';
+
+// Executor relay status tracking
+export {
+    isFinalRelayStatus,
+    parseRelayStatus,
+    getRelayStatuses,
+    trackExecutorRelays,
+    waitForExecutorRelays,
+    pollForExecutorStatus,
+} from './status';
+
+// Destination delivery confirmation
+export {
+    getReplayProtectionSlot,
+    isMessageDelivered,
+    findDeliveryTransaction,
+    decodeDeliveryCalldata,
+    checkDelivery,
+    waitForPriceDeliveries,
+} from './delivery';
+
+// Transaction management
+export {
+    createTransactionManager,
+    getTransactionManager,
+} from './transactionManager';
+
+// Signed quotes
+export {
+    SIGNED_QUOTE_PREFIX,
+    decodeSignedQuote,
+    recoverQuoteSigner,
+    verifySignedQuote,
+    encodeQuoteBody,
+    signQuote,
+} from './signedQuote';
+
+// Capabilities preflight
+export {
+    VAA_V1_REQUEST_PREFIX,
+    loadExecutorCapabilities,
+    checkRelayRequest,
+    validateRelayRequest,
+    preflightRelayRequests,
+} from './capabilities';
+
+// Quote cache
+export { createQuoteCache, defaultQuoteCache } from './quoteCache';
+
+// Errors
+export {
+    ExecutorQuoteError,
+    SignedQuoteError,
+    RelayValidationError,
+    RelayInstructionsError,
+    ExecutorStatusTimeoutError,
+    PriceFeedRevertError,
+    PricePayloadError,
+    TransactionManagerError,
+    PartialPriceUpdateError,
+    InsufficientBalanceError,
+    VaaError,
+    RedeliveryError,
+    SignerError,
+    DeploymentConfigError,
+} from './errors';
+export type {
+    SignedQuoteErrorReason,
+    RelayValidationErrorReason,
+    RelayInstructionsErrorReason,
+    PriceFeedRevertReason,
+    PricePayloadErrorReason,
+    TransactionManagerErrorReason,
+    VaaErrorReason,
+    RedeliveryErrorReason,
+    SignerErrorReason,
+} from './errors';
+
 // Wormhole SDK utilities
 export {
     getWormholeContext,
     getViemChain,
+    getEvmChainId,
     getPublicClient,
     getWalletClient,
     getClients,
+    createClientRegistry,
+    getClientRegistry,
+    setClientRegistry,
     getCoreBridgeAddress,
     sleep,
     pollForEvent,
     pollForVAA,
 } from './wormhole';
 
+// Signers
+export {
+    getSignerConfig,
+    decryptKeystore,
+    createRemoteSignerAccount,
+    createSignerAccount,
+    getSignerAccount,
+    getSignerAddress,
+} from './signer';
+
+// VAAs
+export {
+    vaaToHex,
+    parseVaa,
+    parsePriceVaa,
+    recoverVaaSigners,
+    verifyVaa,
+    getGuardianSet,
+} from './vaa';
+
+// Manual redelivery
+export { redeliverPriceUpdate } from './redelivery';
+
+// Event subscriptions
+export { onPricesReceived, onPricesUpdated } from './subscriptions';
+
 // Cross-chain messaging
 export {
     PriceFeedSenderABI,
@@ -53,10 +197,38 @@ export {
     CoreBridgeABI,
     getPriceFeedContract,
     sendPriceUpdate,
+    getTargetChainMessages,
+    decodePriceFeedRevert,
     queryPrice,
     estimatePriceUpdateCost,
 } from './messaging';
 
+// Cross-chain consistency
+export { readPrices, checkConsistency } from './consistency';
+
+// Deployment doctor
+export { diagnoseDeployment } from './doctor';
+
+// Event indexer
+export {
+    createPriceFeedIndexer,
+    getPriceUpdateHistory,
+    getSymbolPriceHistory,
+} from './indexer';
+export {
+    createInMemoryIndexerStore,
+    createSqliteIndexerStore,
+} from './indexerStore';
+
+// Destination gas estimation
+export {
+    estimateReceiverGas,
+    estimateDeliveryGas,
+    estimateDeliveryGasLimits,
+    getGuardianQuorum,
+    splitPriceBatch,
+} from './gasEstimate';
+
 // ABIs (re-export from config for convenience)
 export {
     PriceFeedSenderABI as PRICE_FEED_SENDER_ABI,
@@ -67,10 +239,80 @@ export {
 // Re-export types
 export type {
     ChainConfig,
+    ChainGasSettings,
+    ChainRole,
+    DeploymentChain,
+    DeploymentProfile,
+    DeploymentFile,
+    NativeCurrency,
     ExecutorQuoteParams,
     ExecutorQuote,
     ExecutorCapabilities,
+    ExecutorClient,
+    ChainQuoteResult,
+    DecodedSignedQuote,
+    QuoteVerificationOptions,
+    QuoteRetryOptions,
+    MultiChainQuoteOptions,
+    RelayInstruction,
+    PricePayload,
+    TargetChainMessage,
+    PriceUpdateSimulation,
+    GasEstimateOptions,
+    DestinationGasEstimate,
+    QuoteCache,
+    QuoteCacheOptions,
+    RelayRequestCheck,
+    SendPriceUpdateOptions,
     SendPriceUpdateResult,
+    PriceBatchResult,
+    PreparedTransaction,
+    PendingTransaction,
+    ManagedTransactionResult,
+    TransactionManager,
+    TransactionManagerOptions,
+    ExecutorStatusResponse,
+    ExecutorRelayStatus,
+    RelayStatusKind,
+    RelayTrackerUpdate,
+    RelayTrackerOptions,
+    DeliveryStatusKind,
+    DestinationDelivery,
+    DeliveryTrackerOptions,
+    PriceConsistencyStatus,
+    SymbolConsistency,
+    ConsistencyReport,
+    ConsistencyCheckOptions,
+    DoctorCheckKind,
+    DoctorCheck,
+    DoctorReport,
+    DoctorOptions,
+    IndexedEvent,
+    IndexedEventName,
+    IndexedEventFilter,
+    IndexerCursor,
+    IndexerStore,
+    PriceFeedIndexer,
+    PriceFeedIndexerOptions,
+    IndexerSyncResult,
+    IndexedPriceUpdate,
+    ClientRegistry,
+    ClientRegistryOptions,
+    SignerConfig,
+    SignerType,
+    VaaSignature,
+    ParsedVaa,
+    PriceVaa,
+    GuardianSet,
+    VaaVerificationOptions,
+    RedeliveryOptions,
+    RedeliveryResult,
+    PriceFeedEvent,
+    PricesReceivedEvent,
+    PricesUpdatedEvent,
+    SubscriptionMode,
+    SubscriptionOptions,
+    Subscription,
     VAAData,
     TargetChainParams,
 } from '../config/types';
@@ -0,0 +1,430 @@
+/**
+ * Persistent event indexer for the price feed contracts
+ *
+ * Prices live in a mapping that cannot be enumerated, so their history is
+ * only in events. The indexer follows LocalPricesStored, PricesUpdated and the
+ * core bridge LogMessagePublished on the source, and PricesReceived on every
+ * receiver, into an IndexerStore:
+ * - per-chain cursors make indexing resumable
+ * - recorded block hashes detect reorgs; events after the last block still
+ *   on the canonical chain are rolled back and indexed again
+ */
+
+import type { Hash, Log, PublicClient } from 'viem';
+import type {
+    ChainConfig,
+    IndexedEvent,
+    IndexedPriceUpdate,
+    IndexerCursor,
+    IndexerStore,
+    IndexerSyncResult,
+    PriceFeedIndexer,
+    PriceFeedIndexerOptions,
+} from '../config/types';
+import { PriceFeedEventsABI, CoreBridgeABI } from '../config/abi';
+import { getCoreBridgeAddress, getPublicClient } from './wormhole';
+import { decodeDeliveryCalldata } from './delivery';
+import { onPricesReceived, onPricesUpdated } from './subscriptions';
+import { toUniversalAddress } from './address';
+
+function toIndexedEvent(
+    chainId: number,
+    log: Log,
+    eventName: IndexedEvent['eventName'],
+    args: IndexedEvent['args']
+): IndexedEvent {
+    return {
+        chainId,
+        blockNumber: log.blockNumber!,
+        blockHash: log.blockHash!,
+        transactionHash: log.transactionHash!,
+        logIndex: log.logIndex!,
+        address: log.address,
+        eventName,
+        args,
+    } as IndexedEvent;
+}
+
+/**
+ * Price feed and core bridge events from the source in a block range
+ */
+async function fetchSourceEvents(
+    source: ChainConfig,
+    publicClient: PublicClient,
+    fromBlock: bigint,
+    toBlock: bigint
+): Promise<IndexedEvent[]> {
+    const coreBridge = await getCoreBridgeAddress(source);
+    const [senderLogs, messageLogs] = await Promise.all([
+        publicClient.getContractEvents({
+            address: source.priceFeedAddress,
+            abi: PriceFeedEventsABI,
+            fromBlock,
+            toBlock,
+            strict: true,
+        }),
+        publicClient.getContractEvents({
+            address: coreBridge,
+            abi: CoreBridgeABI,
+            eventName: 'LogMessagePublished',
+            args: { sender: source.priceFeedAddress },
+            fromBlock,
+            toBlock,
+        }),
+    ]);
+
+    const events: IndexedEvent[] = [];
+    for (const log of senderLogs) {
+        if (log.eventName === 'LocalPricesStored') {
+            events.push(
+                toIndexedEvent(source.wormholeChainId, log, log.eventName, {
+                    tokenNames: [...log.args.tokenNames],
+                    prices: [...log.args.prices],
+                })
+            );
+        } else if (log.eventName === 'PricesUpdated') {
+            events.push(
+                toIndexedEvent(source.wormholeChainId, log, log.eventName, {
+                    count: log.args.count,
+                    targetChain: Number(log.args.targetChain),
+                    sequence: log.args.sequence,
+                })
+            );
+        }
+    }
+    for (const log of messageLogs) {
+        events.push(
+            toIndexedEvent(source.wormholeChainId, log, 'LogMessagePublished', {
+                ...log.args,
+            } as IndexedEvent['args'])
+        );
+    }
+    return events;
+}
+
+/**
+ * PricesReceived events from a receiver in a block range, with the sequence
+ * of each delivery decoded from its calldata
+ */
+async function fetchReceiverEvents(
+    receiver: ChainConfig,
+    publicClient: PublicClient,
+    fromBlock: bigint,
+    toBlock: bigint
+): Promise<IndexedEvent[]> {
+    const logs = await publicClient.getContractEvents({
+        address: receiver.priceFeedAddress,
+        abi: PriceFeedEventsABI,
+        eventName: 'PricesReceived',
+        fromBlock,
+        toBlock,
+        strict: true,
+    });
+
+    return Promise.all(
+        logs.map(async (log) => {
+            const { args } = log;
+            const tx = await publicClient.getTransaction({
+                hash: log.transactionHash as Hash,
+            });
+            return toIndexedEvent(
+                receiver.wormholeChainId,
+                log,
+                'PricesReceived',
+                {
+                    count: args.count,
+                    senderChain: Number(args.senderChain),
+                    sender: args.sender,
+                    sequence: decodeDeliveryCalldata(tx.input)?.sequence,
+                }
+            );
+        })
+    );
+}
+
+async function getBlockHash(
+    publicClient: PublicClient,
+    blockNumber: bigint
+): Promise<Hash | undefined> {
+    try {
+        return (await publicClient.getBlock({ blockNumber })).hash;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Create an indexer for the source and receivers
+ * Call `sync()` for a single pass, or `run()` to keep following the chains.
+ */
+export function createPriceFeedIndexer(
+    chains: { source: ChainConfig; receivers: ChainConfig[] },
+    options: PriceFeedIndexerOptions
+): PriceFeedIndexer {
+    const { store } = options;
+    const batchSize = options.batchSize ?? 2000n;
+    const confirmations = options.confirmations ?? 0n;
+    const maxReorgDepth = BigInt(options.maxReorgDepth ?? 128);
+    const pollIntervalMs = options.pollIntervalMs ?? 15000;
+
+    /**
+     * Roll back to the newest recorded block still on the canonical chain
+     * Returns the block rolled back to, or undefined if there was no reorg
+     */
+    async function handleReorg(
+        chainId: number,
+        publicClient: PublicClient
+    ): Promise<bigint | undefined> {
+        const cursor = store.getCursor(chainId);
+        if (!cursor) return undefined;
+        if (
+            (await getBlockHash(publicClient, cursor.blockNumber)) ===
+            cursor.blockHash
+        ) {
+            return undefined;
+        }
+
+        // Blocks deeper than maxReorgDepth are assumed final
+        const floor =
+            cursor.blockNumber > maxReorgDepth
+                ? cursor.blockNumber - maxReorgDepth
+                : 0n;
+        let ancestor: IndexerCursor | undefined;
+        for (const known of store.getBlockHashes(chainId)) {
+            if (known.blockNumber >= cursor.blockNumber) continue;
+            if (known.blockNumber < floor) break;
+            if (
+                (await getBlockHash(publicClient, known.blockNumber)) ===
+                known.blockHash
+            ) {
+                ancestor = known;
+                break;
+            }
+        }
+        if (!ancestor) {
+            const blockHash = await getBlockHash(publicClient, floor);
+            if (!blockHash) {
+                throw new Error(
+                    `Cannot read block ${floor} to recover from a reorg`
+                );
+            }
+            ancestor = { blockNumber: floor, blockHash };
+        }
+
+        store.rollback(chainId, ancestor);
+        return ancestor.blockNumber;
+    }
+
+    async function syncChain(
+        chainConfig: ChainConfig,
+        isSource: boolean
+    ): Promise<IndexerSyncResult> {
+        const chainId = chainConfig.wormholeChainId;
+        const publicClient = await getPublicClient(chainConfig);
+
+        const rolledBackTo = await handleReorg(chainId, publicClient);
+        const head = await publicClient.getBlockNumber();
+        const target = head > confirmations ? head - confirmations : 0n;
+
+        const cursor = store.getCursor(chainId);
+        const startBlock =
+            options.startBlocks?.[chainId] ??
+            (target > 5000n ? target - 5000n : 0n);
+        const fromBlock = cursor ? cursor.blockNumber + 1n : startBlock;
+
+        let indexed = 0;
+        for (let from = fromBlock; from <= target; from += batchSize) {
+            const to =
+                from + batchSize - 1n < target ? from + batchSize - 1n : target;
+            const blockHash = await getBlockHash(publicClient, to);
+            if (!blockHash) throw new Error(`Cannot read block ${to}`);
+
+            const events = await (
+                isSource ? fetchSourceEvents : fetchReceiverEvents
+            )(chainConfig, publicClient, from, to);
+            const eventBlocks = new Map(
+                events.map((event) => [
+                    event.blockNumber,
+                    {
+                        blockNumber: event.blockNumber,
+                        blockHash: event.blockHash,
+                    },
+                ])
+            );
+
+            store.commit(chainId, {
+                events,
+                blocks: [...eventBlocks.values()],
+                cursor: { blockNumber: to, blockHash },
+                pruneBlocksBefore:
+                    to > maxReorgDepth ? to - maxReorgDepth : undefined,
+            });
+            indexed += events.length;
+        }
+
+        return {
+            chainId,
+            fromBlock,
+            toBlock: target,
+            events: indexed,
+            rolledBackTo,
+        };
+    }
+
+    async function sync(): Promise<IndexerSyncResult[]> {
+        const results: IndexerSyncResult[] = [];
+        // One chain at a time keeps the RPC load predictable
+        for (const [chainConfig, isSource] of [
+            [chains.source, true] as const,
+            ...chains.receivers.map((receiver) => [receiver, false] as const),
+        ]) {
+            try {
+                results.push(await syncChain(chainConfig, isSource));
+            } catch (error) {
+                const cursor = store.getCursor(chainConfig.wormholeChainId);
+                results.push({
+                    chainId: chainConfig.wormholeChainId,
+                    fromBlock: cursor ? cursor.blockNumber + 1n : 0n,
+                    toBlock: cursor?.blockNumber ?? 0n,
+                    events: 0,
+                    error: error as Error,
+                });
+            }
+        }
+        return results;
+    }
+
+    return {
+        store,
+        sync,
+        async run(signal, onSync) {
+            // Price feed events (or an abort) start the next pass early
+            let received = false;
+            let wake: (() => void) | undefined;
+            const notify = () => {
+                received = true;
+                wake?.();
+            };
+            signal?.addEventListener('abort', notify);
+
+            const subscriptionOptions = { signal, onError: () => {} };
+            const subscriptions = await Promise.all(
+                [
+                    onPricesUpdated(chains.source, notify, subscriptionOptions),
+                    ...chains.receivers.map((receiver) =>
+                        onPricesReceived(receiver, notify, subscriptionOptions)
+                    ),
+                ].map((subscription) => subscription.catch(() => undefined))
+            );
+
+            try {
+                while (!signal?.aborted) {
+                    onSync?.(await sync());
+                    if (!received) {
+                        await new Promise<void>((resolve) => {
+                            const timer = setTimeout(resolve, pollIntervalMs);
+                            wake = () => {
+                                clearTimeout(timer);
+                                resolve();
+                            };
+                        });
+                    }
+                    received = false;
+                    wake = undefined;
+                }
+            } finally {
+                signal?.removeEventListener('abort', notify);
+                subscriptions.forEach((subscription) =>
+                    subscription?.unsubscribe()
+                );
+            }
+        },
+    };
+}
+
+/**
+ * Price updates sent from the source, with the sequence for each target and
+ * the delivery on that target when it has been indexed
+ */
+export function getPriceUpdateHistory(
+    store: IndexerStore,
+    sourceChainId: number,
+    range: { fromBlock?: bigint; toBlock?: bigint } = {}
+): IndexedPriceUpdate[] {
+    const deliveries = new Map<
+        string,
+        { transactionHash: Hash; blockNumber: bigint }
+    >();
+    for (const event of store.getEvents({ eventName: 'PricesReceived' })) {
+        if (event.eventName !== 'PricesReceived') continue;
+        if (
+            event.args.senderChain !== sourceChainId ||
+            event.args.sequence === undefined
+        ) {
+            continue;
+        }
+        deliveries.set(
+            `${event.chainId}:${event.args.sender.toLowerCase()}:${event.args.sequence}`,
+            {
+                transactionHash: event.transactionHash,
+                blockNumber: event.blockNumber,
+            }
+        );
+    }
+
+    const sourceEvents = store.getEvents({ chainId: sourceChainId, ...range });
+    return sourceEvents.flatMap((event) => {
+        if (event.eventName !== 'LocalPricesStored') return [];
+        const sender = toUniversalAddress(event.address).toLowerCase();
+        const targets = sourceEvents.flatMap((other) =>
+            other.eventName === 'PricesUpdated' &&
+            other.transactionHash === event.transactionHash
+                ? [
+                      {
+                          chainId: other.args.targetChain,
+                          sequence: other.args.sequence,
+                          delivery: deliveries.get(
+                              `${other.args.targetChain}:${sender}:${other.args.sequence}`
+                          ),
+                      },
+                  ]
+                : []
+        );
+
+        return [
+            {
+                transactionHash: event.transactionHash,
+                blockNumber: event.blockNumber,
+                symbols: event.args.tokenNames,
+                prices: event.args.prices,
+                targets,
+            },
+        ];
+    });
+}
+
+/**
+ * Every price stored for a symbol on the source, oldest first
+ */
+export function getSymbolPriceHistory(
+    store: IndexerStore,
+    sourceChainId: number,
+    symbol: string
+): Array<{ price: bigint; blockNumber: bigint; transactionHash: Hash }> {
+    return store
+        .getEvents({ chainId: sourceChainId, eventName: 'LocalPricesStored' })
+        .flatMap((event) => {
+            if (event.eventName !== 'LocalPricesStored') return [];
+            return event.args.tokenNames.flatMap((name, i) =>
+                name === symbol
+                    ? [
+                          {
+                              price: event.args.prices[i],
+                              blockNumber: event.blockNumber,
+                              transactionHash: event.transactionHash,
+                          },
+                      ]
+                    : []
+            );
+        });
+}
@@ -0,0 +1,347 @@
+/**
+ * Storage for the price feed event indexer
+ *
+ * The SQLite store (node:sqlite: Node.js 22.13+, or 22.5+ with
+ * --experimental-sqlite) persists events, per-chain cursors and recent block
+ * hashes in one file. The in-memory store keeps the same data for tests and
+ * short-lived processes.
+ */
+
+import type {
+    IndexedEvent,
+    IndexedEventFilter,
+    IndexerCursor,
+    IndexerStore,
+} from '../config/types';
+
+// Event args are stored as JSON, with bigints tagged so they survive the round trip
+function serializeArgs(args: IndexedEvent['args']): string {
+    return JSON.stringify(args, (_key, value) =>
+        typeof value === 'bigint' ? { $bigint: value.toString() } : value
+    );
+}
+
+function parseArgs(json: string): IndexedEvent['args'] {
+    return JSON.parse(json, (_key, value) =>
+        value && typeof value === 'object' && typeof value.$bigint === 'string'
+            ? BigInt(value.$bigint)
+            : value
+    );
+}
+
+function matchesFilter(
+    event: IndexedEvent,
+    filter: IndexedEventFilter
+): boolean {
+    return (
+        (filter.chainId === undefined || event.chainId === filter.chainId) &&
+        (filter.eventName === undefined ||
+            event.eventName === filter.eventName) &&
+        (filter.transactionHash === undefined ||
+            event.transactionHash.toLowerCase() ===
+                filter.transactionHash.toLowerCase()) &&
+        (filter.fromBlock === undefined ||
+            event.blockNumber >= filter.fromBlock) &&
+        (filter.toBlock === undefined || event.blockNumber <= filter.toBlock)
+    );
+}
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+    if (a.chainId !== b.chainId) return a.chainId - b.chainId;
+    if (a.blockNumber !== b.blockNumber) {
+        return a.blockNumber < b.blockNumber ? -1 : 1;
+    }
+    return a.logIndex - b.logIndex;
+}
+
+/**
+ * Create an indexer store that lives in memory
+ */
+export function createInMemoryIndexerStore(): IndexerStore {
+    const cursors = new Map<number, IndexerCursor>();
+    const blocks = new Map<number, Map<bigint, IndexerCursor>>();
+    const events = new Map<string, IndexedEvent>();
+
+    const eventKey = (event: IndexedEvent) =>
+        `${event.chainId}:${event.transactionHash}:${event.logIndex}`;
+    const chainBlocks = (chainId: number) => {
+        if (!blocks.has(chainId)) blocks.set(chainId, new Map());
+        return blocks.get(chainId)!;
+    };
+
+    return {
+        getCursor(chainId) {
+            return cursors.get(chainId);
+        },
+
+        getBlockHashes(chainId) {
+            return [...chainBlocks(chainId).values()].sort((a, b) =>
+                a.blockNumber > b.blockNumber ? -1 : 1
+            );
+        },
+
+        commit(chainId, batch) {
+            for (const event of batch.events) {
+                events.set(eventKey(event), event);
+            }
+            const hashes = chainBlocks(chainId);
+            for (const block of [...batch.blocks, batch.cursor]) {
+                hashes.set(block.blockNumber, block);
+            }
+            if (batch.pruneBlocksBefore !== undefined) {
+                for (const blockNumber of hashes.keys()) {
+                    if (blockNumber < batch.pruneBlocksBefore) {
+                        hashes.delete(blockNumber);
+                    }
+                }
+            }
+            cursors.set(chainId, batch.cursor);
+        },
+
+        rollback(chainId, cursor) {
+            for (const [key, event] of events) {
+                if (
+                    event.chainId === chainId &&
+                    event.blockNumber > cursor.blockNumber
+                ) {
+                    events.delete(key);
+                }
+            }
+            const hashes = chainBlocks(chainId);
+            for (const blockNumber of hashes.keys()) {
+                if (blockNumber > cursor.blockNumber)
+                    hashes.delete(blockNumber);
+            }
+            hashes.set(cursor.blockNumber, cursor);
+            cursors.set(chainId, cursor);
+        },
+
+        getEvents(filter = {}) {
+            return [...events.values()]
+                .filter((event) => matchesFilter(event, filter))
+                .sort(compareEvents);
+        },
+
+        close() {},
+    };
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS cursors (
+        chain_id INTEGER PRIMARY KEY,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS blocks (
+        chain_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        PRIMARY KEY (chain_id, block_number)
+    );
+    CREATE TABLE IF NOT EXISTS events (
+        chain_id INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        event_name TEXT NOT NULL,
+        args TEXT NOT NULL,
+        PRIMARY KEY (chain_id, transaction_hash, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS events_by_block
+        ON events (chain_id, block_number, log_index);
+    CREATE INDEX IF NOT EXISTS events_by_name
+        ON events (event_name, chain_id, block_number);
+`;
+
+type Row = Record<string, unknown>;
+
+function toCursor(row: Row): IndexerCursor {
+    return {
+        blockNumber: BigInt(row.block_number as number),
+        blockHash: row.block_hash as IndexerCursor['blockHash'],
+    };
+}
+
+function toEvent(row: Row): IndexedEvent {
+    return {
+        chainId: Number(row.chain_id),
+        blockNumber: BigInt(row.block_number as number),
+        blockHash: row.block_hash,
+        transactionHash: row.transaction_hash,
+        logIndex: Number(row.log_index),
+        address: row.address,
+        eventName: row.event_name,
+        args: parseArgs(row.args as string),
+    } as IndexedEvent;
+}
+
+/**
+ * Create an indexer store backed by a SQLite file
+ * Needs node:sqlite (Node.js 22.13+, or 22.5+ with --experimental-sqlite).
+ * Use ':memory:' for a throwaway database.
+ */
+export async function createSqliteIndexerStore(
+    path: string
+): Promise<IndexerStore> {
+    // Loaded lazily so the library still imports where node:sqlite is missing
+    let sqlite: typeof import('node:sqlite');
+    try {
+        sqlite = await import('node:sqlite');
+    } catch (error) {
+        throw new Error(
+            `node:sqlite is not available in Node.js ${process.versions.node}: ` +
+                'use Node.js 22.13+ (or 22.5+ with --experimental-sqlite), ' +
+                'or createInMemoryIndexerStore',
+            { cause: error }
+        );
+    }
+    const { DatabaseSync } = sqlite;
+    const db = new DatabaseSync(path);
+    db.exec(SCHEMA);
+
+    const statements = {
+        getCursor: db.prepare(
+            'SELECT block_number, block_hash FROM cursors WHERE chain_id = ?'
+        ),
+        setCursor: db.prepare(
+            'INSERT OR REPLACE INTO cursors (chain_id, block_number, block_hash) VALUES (?, ?, ?)'
+        ),
+        getBlocks: db.prepare(
+            'SELECT block_number, block_hash FROM blocks WHERE chain_id = ? ORDER BY block_number DESC'
+        ),
+        setBlock: db.prepare(
+            'INSERT OR REPLACE INTO blocks (chain_id, block_number, block_hash) VALUES (?, ?, ?)'
+        ),
+        pruneBlocks: db.prepare(
+            'DELETE FROM blocks WHERE chain_id = ? AND block_number < ?'
+        ),
+        dropBlocks: db.prepare(
+            'DELETE FROM blocks WHERE chain_id = ? AND block_number > ?'
+        ),
+        dropEvents: db.prepare(
+            'DELETE FROM events WHERE chain_id = ? AND block_number > ?'
+        ),
+        setEvent: db.prepare(
+            `INSERT OR REPLACE INTO events
+                (chain_id, block_number, block_hash, transaction_hash, log_index, address, event_name, args)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ),
+    };
+
+    function transaction(fn: () => void): void {
+        db.exec('BEGIN');
+        try {
+            fn();
+            db.exec('COMMIT');
+        } catch (error) {
+            db.exec('ROLLBACK');
+            throw error;
+        }
+    }
+
+    return {
+        getCursor(chainId) {
+            const row = statements.getCursor.get(chainId) as Row | undefined;
+            return row ? toCursor(row) : undefined;
+        },
+
+        getBlockHashes(chainId) {
+            return (statements.getBlocks.all(chainId) as Row[]).map(toCursor);
+        },
+
+        commit(chainId, batch) {
+            transaction(() => {
+                for (const event of batch.events) {
+                    statements.setEvent.run(
+                        event.chainId,
+                        event.blockNumber,
+                        event.blockHash,
+                        event.transactionHash,
+                        event.logIndex,
+                        event.address,
+                        event.eventName,
+                        serializeArgs(event.args)
+                    );
+                }
+                for (const block of [...batch.blocks, batch.cursor]) {
+                    statements.setBlock.run(
+                        chainId,
+                        block.blockNumber,
+                        block.blockHash
+                    );
+                }
+                if (batch.pruneBlocksBefore !== undefined) {
+                    statements.pruneBlocks.run(
+                        chainId,
+                        batch.pruneBlocksBefore
+                    );
+                }
+                statements.setCursor.run(
+                    chainId,
+                    batch.cursor.blockNumber,
+                    batch.cursor.blockHash
+                );
+            });
+        },
+
+        rollback(chainId, cursor) {
+            transaction(() => {
+                statements.dropEvents.run(chainId, cursor.blockNumber);
+                statements.dropBlocks.run(chainId, cursor.blockNumber);
+                statements.setBlock.run(
+                    chainId,
+                    cursor.blockNumber,
+                    cursor.blockHash
+                );
+                statements.setCursor.run(
+                    chainId,
+                    cursor.blockNumber,
+                    cursor.blockHash
+                );
+            });
+        },
+
+        getEvents(filter = {}) {
+            const conditions: string[] = [];
+            const params: Array<string | number | bigint> = [];
+            if (filter.chainId !== undefined) {
+                conditions.push('chain_id = ?');
+                params.push(filter.chainId);
+            }
+            if (filter.eventName !== undefined) {
+                conditions.push('event_name = ?');
+                params.push(filter.eventName);
+            }
+            if (filter.transactionHash !== undefined) {
+                conditions.push('lower(transaction_hash) = lower(?)');
+                params.push(filter.transactionHash);
+            }
+            if (filter.fromBlock !== undefined) {
+                conditions.push('block_number >= ?');
+                params.push(filter.fromBlock);
+            }
+            if (filter.toBlock !== undefined) {
+                conditions.push('block_number <= ?');
+                params.push(filter.toBlock);
+            }
+
+            const where =
+                conditions.length > 0
+                    ? `WHERE ${conditions.join(' AND ')}`
+                    : '';
+            return (
+                db
+                    .prepare(
+                        `SELECT * FROM events ${where} ORDER BY chain_id, block_number, log_index`
+                    )
+                    .all(...params) as Row[]
+            ).map(toEvent);
+        },
+
+        close() {
+            db.close();
+        },
+    };
+}
@@ -6,21 +6,56 @@ import {
     type PublicClient,
     type WalletClient,
     type Address,
+    type Hex,
+    type TransactionReceipt,
+    BaseError,
+    ContractFunctionRevertedError,
     getContract,
     decodeEventLog,
+    encodeFunctionData,
+    isAddressEqual,
+    keccak256,
+    toHex,
 } from 'viem';
 import type {
     ChainConfig,
+    ChainQuoteResult,
+    ExecutorQuote,
+    MultiChainQuoteOptions,
+    PriceBatchResult,
+    PricePayload,
+    SendPriceUpdateOptions,
     SendPriceUpdateResult,
+    TargetChainMessage,
     TargetChainParams,
 } from '../config/types';
 import {
+    PriceFeedEventsABI,
     PriceFeedSenderABI,
     PriceFeedReceiverABI,
     CoreBridgeABI,
 } from '../config/abi';
 import { getClients, getCoreBridgeAddress } from './wormhole';
 import { getMultiChainQuotes, calculateTotalCost } from './executor';
+import { defaultQuoteCache } from './quoteCache';
+import {
+    loadExecutorCapabilities,
+    preflightRelayRequests,
+} from './capabilities';
+import {
+    estimateDeliveryGasLimits,
+    getGuardianQuorum,
+    splitPriceBatch,
+} from './gasEstimate';
+import { toUniversalAddress } from './address';
+import {
+    InsufficientBalanceError,
+    PartialPriceUpdateError,
+    PriceFeedRevertError,
+} from './errors';
+import { encodePricePayload } from './payload';
+import { decodeSignedQuote } from './signedQuote';
+import { getTransactionManager } from './transactionManager';
 import {
     createRelayInstructions,
     DEFAULT_GAS_LIMIT,
@@ -50,89 +85,629 @@ export function getPriceFeedContract(
 }
 
 /**
- * Send a cross-chain price update using the Wormhole Executor
- * Supports sending to multiple destination chains in a single transaction
- *
- * @returns SendPriceUpdateResult with receipt and sequence
+ * Drop destinations whose relay parameters the Executor cannot honour
  */
-export async function sendPriceUpdate(
+async function preflightDestinations(
     fromConfig: ChainConfig,
     toConfigs: ChainConfig[],
-    symbols: string[],
-    prices: bigint[]
-): Promise<SendPriceUpdateResult> {
-    const { publicClient, walletClient } = await getClients(fromConfig);
-
-    // Build relay instructions
-    const gasLimit = DEFAULT_GAS_LIMIT * 2n;
-    const msgValue = DEFAULT_MSG_VALUE;
-    const relayInstructions = createRelayInstructions(gasLimit, msgValue);
+    gasLimits: Record<number, bigint>,
+    msgValue: bigint,
+    options: Pick<SendPriceUpdateOptions, 'skipPreflight' | 'client'>
+) {
+    if (options.skipPreflight) {
+        return { accepted: toConfigs, rejected: [] };
+    }
 
-    // Get quotes for all destination chains
-    const quotes = await getMultiChainQuotes(
+    const rejections = await preflightRelayRequests(
         fromConfig.wormholeChainId,
-        toConfigs.map((config) => ({
-            chainId: config.wormholeChainId,
-            relayInstructions,
-        }))
+        toConfigs.map((config) => config.wormholeChainId),
+        gasLimits,
+        msgValue,
+        fromConfig.network,
+        options.client
     );
 
-    // Calculate total cost - contract expects exact sum of target costs (no message fee)
-    let totalCost = 0n;
-    for (const quote of quotes) {
-        totalCost += quote.estimatedCost;
+    return {
+        accepted: toConfigs.filter(
+            (config) => !rejections.has(config.wormholeChainId)
+        ),
+        rejected: [...rejections].map(([chainId, error]) => ({
+            chainId,
+            error: error as Error,
+        })),
+    };
+}
+
+/**
+ * Gas limit per destination Wormhole chain ID
+ * Uses `options.gasLimit` if set, then the destination's configured gas
+ * limit, otherwise estimates it for the payload; without a payload to model,
+ * falls back to the default gas limit.
+ * Estimates are capped at `maxGasLimit`, the limit the batch was planned for,
+ * so the estimator's history and margin cannot push a batch past it.
+ */
+export async function resolveGasLimits(
+    toConfigs: ChainConfig[],
+    payload: { symbols: string[]; prices: bigint[] } | undefined,
+    options: Pick<SendPriceUpdateOptions, 'gasLimit' | 'gasEstimate'>,
+    maxGasLimit?: bigint
+): Promise<Record<number, bigint>> {
+    const fixedGasLimit = (config: ChainConfig) =>
+        options.gasLimit ??
+        config.gas?.gasLimit ??
+        (payload ? undefined : DEFAULT_GAS_LIMIT * 2n);
+
+    const toEstimate = toConfigs.filter(
+        (config) => fixedGasLimit(config) === undefined
+    );
+    const estimates =
+        toEstimate.length > 0
+            ? await estimateDeliveryGasLimits(
+                  toEstimate,
+                  payload!.symbols,
+                  payload!.prices,
+                  options.gasEstimate
+              )
+            : [];
+
+    return Object.fromEntries([
+        ...toConfigs.flatMap((config) => {
+            const gasLimit = fixedGasLimit(config);
+            return gasLimit === undefined
+                ? []
+                : [[config.wormholeChainId, gasLimit] as const];
+        }),
+        ...estimates.map(
+            (estimate) =>
+                [
+                    estimate.chainId,
+                    maxGasLimit !== undefined && estimate.gasLimit > maxGasLimit
+                        ? maxGasLimit
+                        : estimate.gasLimit,
+                ] as const
+        ),
+    ]);
+}
+
+/**
+ * Use the shared quote cache unless a cache or a custom client was given
+ * (the shared cache only holds quotes from the default HTTP client)
+ */
+function withDefaultCache<T extends MultiChainQuoteOptions>(options: T): T {
+    return options.client ? options : { cache: defaultQuoteCache, ...options };
+}
+
+/**
+ * Earliest expiry (ms since epoch) of the signed quotes, if they can be decoded
+ */
+function quotesExpireAt(
+    quoted: Array<{ quote: ExecutorQuote }>
+): number | undefined {
+    try {
+        return Math.min(
+            ...quoted.map(({ quote }) =>
+                decodeSignedQuote(quote.signedQuote).expiryTime.getTime()
+            )
+        );
+    } catch {
+        return undefined;
     }
+}
+
+/**
+ * Split multi-chain quote results into usable quotes and failed destinations
+ * Throws if every destination failed, or if any failed and `requireAll` is set
+ */
+function partitionQuotes(
+    toConfigs: ChainConfig[],
+    results: ChainQuoteResult[],
+    requireAll: boolean,
+    rejected: Array<{ chainId: number; error: Error }> = []
+) {
+    const quoted: Array<{ config: ChainConfig; quote: ExecutorQuote }> = [];
+    const failed: Array<{ chainId: number; error: Error }> = [...rejected];
 
-    // Check balance
-    const balance = await publicClient.getBalance({
-        address: walletClient.account!.address,
+    results.forEach((result, index) => {
+        if (result.ok) {
+            quoted.push({ config: toConfigs[index], quote: result.quote });
+        } else {
+            failed.push({ chainId: result.chainId, error: result.error });
+        }
     });
-    if (balance < totalCost) {
-        throw new Error('Insufficient balance for transaction');
+
+    if (failed.length > 0 && (requireAll || quoted.length === 0)) {
+        throw failed[0].error;
     }
 
-    // Build target chain params
-    const targetChainParams: TargetChainParams[] = toConfigs.map(
-        (config, index) => ({
-            chainId: config.wormholeChainId,
-            gasLimit: gasLimit,
-            totalCost: quotes[index].estimatedCost,
-            signedQuote: quotes[index].signedQuote,
-        })
+    return { quoted, failed };
+}
+
+// Role hashes used by the PriceFeed contracts, for readable access errors
+const ROLE_NAMES: Record<Hex, string> = {
+    [toHex(0, { size: 32 })]: 'DEFAULT_ADMIN_ROLE',
+    [keccak256(toHex('PRICE_FEED_ROLE'))]: 'PRICE_FEED_ROLE',
+    [keccak256(toHex('PEER_ADMIN_ROLE'))]: 'PEER_ADMIN_ROLE',
+};
+
+/**
+ * Turn a PriceFeed contract revert into a PriceFeedRevertError
+ * Returns undefined if the error is not a contract revert
+ */
+export function decodePriceFeedRevert(
+    error: unknown
+): PriceFeedRevertError | undefined {
+    if (!(error instanceof BaseError)) return undefined;
+    const revert = error.walk(
+        (e) => e instanceof ContractFunctionRevertedError
     );
+    if (!(revert instanceof ContractFunctionRevertedError)) return undefined;
 
-    // Send transaction using writeContract directly (skip simulate for complex struct arrays)
-    const hash = await walletClient.writeContract({
-        address: fromConfig.priceFeedAddress,
-        abi: PriceFeedSenderABI,
-        functionName: 'updatePrices',
-        args: [symbols, prices, targetChainParams],
-        value: totalCost,
-        chain: walletClient.chain,
-        account: walletClient.account!,
-    });
+    const errorName = revert.data?.errorName;
+    switch (errorName) {
+        case 'ArrayLengthMismatch':
+            return new PriceFeedRevertError(
+                'array-length-mismatch',
+                'Symbols and prices must have the same length',
+                { errorName },
+                error
+            );
+        case 'EmptyArray':
+            return new PriceFeedRevertError(
+                'empty-array',
+                'At least one symbol and one target chain are required',
+                { errorName },
+                error
+            );
+        case 'InsufficientValue':
+            return new PriceFeedRevertError(
+                'insufficient-value',
+                'msg.value must equal the sum of the target chain costs',
+                { errorName },
+                error
+            );
+        case 'EnforcedPause':
+            return new PriceFeedRevertError(
+                'paused',
+                'PriceFeed contract is paused',
+                { errorName },
+                error
+            );
+        case 'AccessControlUnauthorizedAccount': {
+            const [account, role] = revert.data!.args as [Address, Hex];
+            return new PriceFeedRevertError(
+                'unauthorized',
+                `Account ${account} is missing ${ROLE_NAMES[role] ?? `role ${role}`}`,
+                { errorName, account, role },
+                error
+            );
+        }
+        default:
+            return new PriceFeedRevertError(
+                'unknown',
+                `PriceFeed call reverted: ${revert.reason ?? errorName ?? revert.shortMessage}`,
+                { errorName },
+                error
+            );
+    }
+}
 
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+/**
+ * Extract the Wormhole message for every target chain from an updatePrices receipt
+ *
+ * Each PricesUpdated event gives a target chain and its sequence; the core
+ * bridge LogMessagePublished log from the sender with the same sequence
+ * carries the rest of the message.
+ */
+export function getTargetChainMessages(
+    receipt: TransactionReceipt,
+    fromConfig: ChainConfig
+): TargetChainMessage[] {
+    const targets: Array<{ chainId: number; sequence: bigint }> = [];
+    const published = new Map<bigint, TargetChainMessage['published']>();
 
-    // Parse sequence from event
-    let sequence: bigint | undefined;
     for (const log of receipt.logs) {
         try {
             const event = decodeEventLog({
-                abi: PriceFeedSenderABI,
+                abi: PriceFeedEventsABI,
                 data: log.data,
                 topics: log.topics,
             });
             if (event.eventName === 'PricesUpdated') {
-                sequence = (event.args as any).sequence;
-                break;
+                targets.push({
+                    chainId: event.args.targetChain,
+                    sequence: event.args.sequence,
+                });
+            }
+            continue;
+        } catch {
+            // Not a price feed event
+        }
+
+        try {
+            const event = decodeEventLog({
+                abi: CoreBridgeABI,
+                data: log.data,
+                topics: log.topics,
+            });
+            if (
+                event.eventName === 'LogMessagePublished' &&
+                isAddressEqual(event.args.sender, fromConfig.priceFeedAddress)
+            ) {
+                published.set(event.args.sequence, {
+                    nonce: event.args.nonce,
+                    payload: event.args.payload,
+                    consistencyLevel: event.args.consistencyLevel,
+                    logIndex: log.logIndex,
+                });
             }
         } catch {
             // Not our event, continue
         }
     }
 
-    return { receipt, hash, sequence };
+    return targets.map(({ chainId, sequence }) => ({
+        chainId,
+        sequence,
+        emitterChain: fromConfig.wormholeChainId,
+        emitterAddress: toUniversalAddress(fromConfig.priceFeedAddress) as Hex,
+        published: published.get(sequence),
+    }));
+}
+
+/**
+ * Send one updatePrices transaction carrying the whole batch
+ * `maxGasLimit` is the delivery gas limit the batch was planned to fit
+ */
+async function sendPriceBatch(
+    fromConfig: ChainConfig,
+    toConfigs: ChainConfig[],
+    symbols: string[],
+    prices: bigint[],
+    options: SendPriceUpdateOptions,
+    maxGasLimit: bigint | undefined
+): Promise<
+    PriceBatchResult & Pick<SendPriceUpdateResult, 'skippedDestinations'>
+> {
+    const { publicClient, walletClient } = await getClients(fromConfig);
+
+    // Size the destination gas limit for this payload
+    const gasLimits = await resolveGasLimits(
+        toConfigs,
+        { symbols, prices },
+        options,
+        maxGasLimit
+    );
+    const msgValue = DEFAULT_MSG_VALUE;
+
+    // Reject destinations the Executor cannot serve before asking for quotes
+    const { accepted, rejected } = await preflightDestinations(
+        fromConfig,
+        toConfigs,
+        gasLimits,
+        msgValue,
+        options
+    );
+
+    const targetGasLimits = (quoted: Array<{ config: ChainConfig }>) =>
+        Object.fromEntries(
+            quoted.map(({ config }) => [
+                config.wormholeChainId,
+                gasLimits[config.wormholeChainId],
+            ])
+        );
+
+    // Quote and build the updatePrices call; run again if a replacement
+    // transaction outlives the quotes
+    const prepareUpdate = async () => {
+        // Get quotes for the remaining destinations, dropping unhealthy ones
+        const quoteResults = await getMultiChainQuotes(
+            fromConfig.wormholeChainId,
+            accepted.map((config) => ({
+                chainId: config.wormholeChainId,
+                relayInstructions: createRelayInstructions(
+                    gasLimits[config.wormholeChainId],
+                    msgValue
+                ),
+            })),
+            fromConfig.network,
+            withDefaultCache(options)
+        );
+        const { quoted, failed } = partitionQuotes(
+            accepted,
+            quoteResults,
+            options.requireAllDestinations ?? false,
+            rejected
+        );
+
+        // Calculate total cost - contract expects exact sum of target costs (no message fee)
+        let totalCost = 0n;
+        for (const { quote } of quoted) {
+            totalCost += quote.estimatedCost;
+        }
+
+        // Check balance
+        const account = walletClient.account!.address;
+        const balance = await publicClient.getBalance({ address: account });
+        if (balance < totalCost) {
+            throw new InsufficientBalanceError(account, balance, totalCost);
+        }
+
+        // Build target chain params
+        const targetChainParams: TargetChainParams[] = quoted.map(
+            ({ config, quote }) => ({
+                chainId: config.wormholeChainId,
+                gasLimit: gasLimits[config.wormholeChainId],
+                totalCost: quote.estimatedCost,
+                signedQuote: quote.signedQuote,
+            })
+        );
+
+        const call = {
+            address: fromConfig.priceFeedAddress,
+            abi: PriceFeedSenderABI,
+            functionName: 'updatePrices',
+            args: [symbols, prices, targetChainParams],
+            value: totalCost,
+            account: walletClient.account!,
+        } as const;
+
+        return { quoted, failed, totalCost, call };
+    };
+
+    // Dry run: simulate with the real quotes and value, but do not send
+    if (options.dryRun) {
+        const { quoted, failed, totalCost, call } = await prepareUpdate();
+        let gas: bigint;
+        try {
+            await publicClient.simulateContract(call);
+            gas = await publicClient.estimateContractGas(call);
+        } catch (error) {
+            throw decodePriceFeedRevert(error) ?? error;
+        }
+
+        return {
+            symbols,
+            receipt: null,
+            hash: undefined,
+            messages: [],
+            skippedDestinations: failed,
+            gasLimits: targetGasLimits(quoted),
+            simulation: {
+                to: fromConfig.priceFeedAddress,
+                data: encodeFunctionData({
+                    abi: PriceFeedSenderABI,
+                    functionName: 'updatePrices',
+                    args: call.args,
+                }),
+                value: totalCost,
+                gas,
+            },
+        };
+    }
+
+    // Send through the transaction manager: locally assigned nonce, and
+    // stuck transactions replaced with higher fees (and fresh quotes)
+    // Reverts during gas estimation are decoded into PriceFeedRevertError
+    const transactionManager =
+        options.transactionManager ??
+        (await getTransactionManager(fromConfig));
+    const { hash, receipt, prepared } =
+        await transactionManager.sendTransaction(async () => {
+            const update = await prepareUpdate();
+            let gas: bigint;
+            try {
+                gas = await publicClient.estimateContractGas(update.call);
+            } catch (error) {
+                throw decodePriceFeedRevert(error) ?? error;
+            }
+
+            return {
+                to: fromConfig.priceFeedAddress,
+                data: encodeFunctionData({
+                    abi: PriceFeedSenderABI,
+                    functionName: 'updatePrices',
+                    args: update.call.args,
+                }),
+                value: update.totalCost,
+                gas,
+                expiresAt: quotesExpireAt(update.quoted),
+                context: update,
+            };
+        });
+    if (receipt.status === 'reverted') {
+        throw new PriceFeedRevertError(
+            'unknown',
+            `updatePrices transaction ${hash} reverted`
+        );
+    }
+
+    return {
+        symbols,
+        receipt,
+        hash,
+        messages: getTargetChainMessages(receipt, fromConfig),
+        skippedDestinations: prepared.context.failed,
+        gasLimits: targetGasLimits(prepared.context.quoted),
+    };
+}
+
+/**
+ * Largest delivery gas limit a single transaction may need
+ * The smallest executor maxGasLimit of the destinations, `options.gasLimit`
+ * (or the destinations' configured gas limits) and `options.maxBatchGasLimit`;
+ * undefined if none of them is known.
+ */
+async function getBatchGasLimit(
+    fromConfig: ChainConfig,
+    toConfigs: ChainConfig[],
+    options: SendPriceUpdateOptions
+): Promise<bigint | undefined> {
+    const limits: bigint[] = [];
+    if (options.maxBatchGasLimit !== undefined) {
+        limits.push(options.maxBatchGasLimit);
+    }
+    if (options.gasLimit !== undefined) {
+        limits.push(options.gasLimit);
+    } else {
+        for (const config of toConfigs) {
+            if (config.gas?.gasLimit) limits.push(config.gas.gasLimit);
+        }
+    }
+
+    try {
+        const capabilities = await loadExecutorCapabilities(
+            fromConfig.network,
+            false,
+            options.client
+        );
+        for (const config of toConfigs) {
+            const maxGasLimit =
+                capabilities[config.wormholeChainId]?.maxGasLimit;
+            if (maxGasLimit) limits.push(BigInt(maxGasLimit));
+        }
+    } catch {
+        // Without capabilities only the explicit limits apply
+    }
+
+    return limits.length > 0
+        ? limits.reduce((min, limit) => (limit < min ? limit : min))
+        : undefined;
+}
+
+/**
+ * Split a price update into batches that fit the delivery gas limit
+ * Sized for the largest guardian quorum of the destinations; returns the
+ * limit the batches were sized for along with them.
+ */
+async function planPriceBatches(
+    fromConfig: ChainConfig,
+    toConfigs: ChainConfig[],
+    symbols: string[],
+    prices: bigint[],
+    options: SendPriceUpdateOptions
+): Promise<{ batches: PricePayload[]; maxGasLimit: bigint | undefined }> {
+    const maxGasLimit = await getBatchGasLimit(fromConfig, toConfigs, options);
+    if (maxGasLimit === undefined) {
+        return { batches: [{ symbols, prices }], maxGasLimit };
+    }
+
+    const quorums = await Promise.all(toConfigs.map(getGuardianQuorum));
+    const batches = splitPriceBatch(symbols, prices, maxGasLimit, {
+        guardianQuorum: Math.max(...quorums),
+        safetyMarginBps: options.gasEstimate?.safetyMarginBps,
+    });
+    return { batches, maxGasLimit };
+}
+
+/**
+ * Send a cross-chain price update using the Wormhole Executor
+ * Supports sending to multiple destination chains in a single transaction
+ *
+ * A batch too large for one delivery (the destinations' executor
+ * maxGasLimit, `options.gasLimit` or `options.maxBatchGasLimit`) is split
+ * into several updatePrices transactions, sent one after another;
+ * `batches` lists the symbols and messages of each. A transaction that
+ * reverts on-chain throws PriceFeedRevertError; if a later transaction
+ * fails, PartialPriceUpdateError lists the ones already sent.
+ *
+ * Destinations that fail the capabilities preflight or whose quote cannot be
+ * fetched are skipped, unless `options.requireAllDestinations` is set;
+ * `skippedDestinations` lists those no transaction reached.
+ * Quotes come from `defaultQuoteCache` unless `options.cache` or
+ * `options.client` is given.
+ * With `options.dryRun` the call is only simulated and `simulations` holds the
+ * calldata, value and gas estimate of every transaction. A balance too low
+ * for a transaction throws InsufficientBalanceError, dry run or not.
+ * Contract reverts are thrown as PriceFeedRevertError; a batch the receiver
+ * would reject (empty, or symbols and prices of different lengths) throws
+ * PricePayloadError up front.
+ * Transactions go through `options.transactionManager`, or the shared manager
+ * for the sender account, so concurrent updates do not race on nonces and a
+ * stuck transaction is replaced.
+ *
+ * @returns SendPriceUpdateResult with receipt and the message for every target
+ */
+export async function sendPriceUpdate(
+    fromConfig: ChainConfig,
+    toConfigs: ChainConfig[],
+    symbols: string[],
+    prices: bigint[],
+    options: SendPriceUpdateOptions = {}
+): Promise<SendPriceUpdateResult> {
+    // Reject a batch every receiver would revert on before paying for it
+    encodePricePayload(symbols, prices);
+
+    const { batches: plan, maxGasLimit } = await planPriceBatches(
+        fromConfig,
+        toConfigs,
+        symbols,
+        prices,
+        options
+    );
+
+    const batches: PriceBatchResult[] = [];
+    const skipped = new Map<number, Error>();
+    for (const [i, batch] of plan.entries()) {
+        let result: Awaited<ReturnType<typeof sendPriceBatch>>;
+        try {
+            result = await sendPriceBatch(
+                fromConfig,
+                toConfigs,
+                batch.symbols,
+                batch.prices,
+                options,
+                maxGasLimit
+            );
+        } catch (error) {
+            if (i === 0) throw error;
+            throw new PartialPriceUpdateError(
+                batches,
+                plan.slice(i).flatMap((unsent) => unsent.symbols),
+                error
+            );
+        }
+
+        const { skippedDestinations, ...sent } = result;
+        for (const { chainId, error } of skippedDestinations) {
+            if (!skipped.has(chainId)) skipped.set(chainId, error);
+        }
+        batches.push(sent);
+    }
+
+    // A destination is only skipped if no batch reached it
+    for (const batch of batches) {
+        for (const chainId of Object.keys(batch.gasLimits)) {
+            skipped.delete(Number(chainId));
+        }
+    }
+
+    const messages = batches.flatMap((batch) => batch.messages);
+    const gasLimits: Record<number, bigint> = {};
+    for (const batch of batches) {
+        for (const [chainId, gasLimit] of Object.entries(batch.gasLimits)) {
+            const current = gasLimits[Number(chainId)];
+            if (current === undefined || gasLimit > current) {
+                gasLimits[Number(chainId)] = gasLimit;
+            }
+        }
+    }
+
+    return {
+        receipt: batches[0].receipt,
+        hash: batches[0].hash,
+        sequence: messages[0]?.sequence,
+        messages,
+        simulation: batches[0].simulation,
+        simulations: options.dryRun
+            ? batches.map((batch) => batch.simulation!)
+            : undefined,
+        skippedDestinations: [...skipped].map(([chainId, error]) => ({
+            chainId,
+            error,
+        })),
+        gasLimits,
+        batches,
+    };
 }
 
 /**
@@ -159,39 +734,81 @@ export async function queryPrice(
 
 /**
  * Get the cost estimate for a multi-chain price update
+ * Pass `options.payload` to quote with gas limits sized for that update;
+ * without it the default gas limit is used.
+ * Destinations that fail preflight or have no quote are listed in `unavailable`
+ * and left out of the total
  */
 export async function estimatePriceUpdateCost(
     fromConfig: ChainConfig,
-    toConfigs: ChainConfig[]
+    toConfigs: ChainConfig[],
+    options: MultiChainQuoteOptions &
+        Pick<
+            SendPriceUpdateOptions,
+            'skipPreflight' | 'gasLimit' | 'gasEstimate'
+        > & { payload?: { symbols: string[]; prices: bigint[] } } = {}
 ): Promise<{
     totalCost: bigint;
-    breakdown: { chain: string; cost: bigint }[];
+    breakdown: { chain: string; cost: bigint; gasLimit: bigint }[];
+    unavailable: { chain: string; error: Error }[];
 }> {
-    const gasLimit = DEFAULT_GAS_LIMIT * 2n;
+    const gasLimits = await resolveGasLimits(
+        toConfigs,
+        options.payload,
+        options
+    );
     const msgValue = DEFAULT_MSG_VALUE;
-    const relayInstructions = createRelayInstructions(gasLimit, msgValue);
 
-    const quotes = await getMultiChainQuotes(
+    const { accepted, rejected } = await preflightDestinations(
+        fromConfig,
+        toConfigs,
+        gasLimits,
+        msgValue,
+        options
+    );
+
+    const results = await getMultiChainQuotes(
         fromConfig.wormholeChainId,
-        toConfigs.map((config) => ({
+        accepted.map((config) => ({
             chainId: config.wormholeChainId,
-            relayInstructions,
-        }))
+            relayInstructions: createRelayInstructions(
+                gasLimits[config.wormholeChainId],
+                msgValue
+            ),
+        })),
+        fromConfig.network,
+        withDefaultCache(options)
     );
 
     let totalCost = 0n;
-    const breakdown: { chain: string; cost: bigint }[] = [];
+    const breakdown: { chain: string; cost: bigint; gasLimit: bigint }[] = [];
+    const unavailable: { chain: string; error: Error }[] = rejected.map(
+        ({ chainId, error }) => ({
+            chain: toConfigs.find((c) => c.wormholeChainId === chainId)!.chain,
+            error,
+        })
+    );
 
-    for (let i = 0; i < quotes.length; i++) {
-        totalCost += quotes[i].estimatedCost;
+    for (let i = 0; i < results.length; i++) {
+        const result = results[i];
+        if (!result.ok) {
+            unavailable.push({
+                chain: accepted[i].chain,
+                error: result.error,
+            });
+            continue;
+        }
+        totalCost += result.quote.estimatedCost;
         breakdown.push({
-            chain: toConfigs[i].chain,
-            cost: quotes[i].estimatedCost,
+            chain: accepted[i].chain,
+            cost: result.quote.estimatedCost,
+            gasLimit: gasLimits[accepted[i].wormholeChainId],
         });
     }
 
     return {
         totalCost,
         breakdown,
+        unavailable,
     };
 }
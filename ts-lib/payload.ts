@@ -0,0 +1,75 @@
+/**
+ * Codec for the price payload carried in the VAA
+ *
+ * PriceFeedSender publishes abi.encode(string[] tokenNames, uint256[] prices)
+ * and PriceFeedReceiver._executeVaa decodes it, reverting with EmptyArray or
+ * ArrayLengthMismatch. These functions mirror that encoding and those rules.
+ */
+
+import { decodeAbiParameters, encodeAbiParameters, type Hex } from 'viem';
+import type { PricePayload } from '../config/types';
+import { PricePayloadError } from './errors';
+
+const PRICE_PAYLOAD_PARAMETERS = [
+    { name: 'tokenNames', type: 'string[]' },
+    { name: 'prices', type: 'uint256[]' },
+] as const;
+
+/**
+ * Check a batch against the receiver's rules (EmptyArray, ArrayLengthMismatch)
+ */
+function checkPricePayload({ symbols, prices }: PricePayload): void {
+    if (symbols.length === 0) {
+        throw new PricePayloadError(
+            'empty-array',
+            'Price payload must contain at least one symbol'
+        );
+    }
+    if (symbols.length !== prices.length) {
+        throw new PricePayloadError(
+            'array-length-mismatch',
+            `Price payload has ${symbols.length} symbols but ${prices.length} prices`
+        );
+    }
+}
+
+/**
+ * Encode a price update exactly as PriceFeedSender does
+ * Throws PricePayloadError if the receiver would reject the batch
+ */
+export function encodePricePayload(symbols: string[], prices: bigint[]): Hex {
+    checkPricePayload({ symbols, prices });
+    try {
+        return encodeAbiParameters(PRICE_PAYLOAD_PARAMETERS, [symbols, prices]);
+    } catch (error) {
+        throw new PricePayloadError(
+            'malformed',
+            'Prices must be uint256 values',
+            error
+        );
+    }
+}
+
+/**
+ * Decode the payload of a price update VAA or LogMessagePublished log
+ * Throws PricePayloadError if it is not a payload the receiver would accept
+ */
+export function decodePricePayload(payload: Hex): PricePayload {
+    let decoded: PricePayload;
+    try {
+        const [symbols, prices] = decodeAbiParameters(
+            PRICE_PAYLOAD_PARAMETERS,
+            payload
+        );
+        decoded = { symbols: [...symbols], prices: [...prices] };
+    } catch (error) {
+        throw new PricePayloadError(
+            'malformed',
+            'Payload is not abi.encode(string[], uint256[])',
+            error
+        );
+    }
+
+    checkPricePayload(decoded);
+    return decoded;
+}
@@ -0,0 +1,157 @@
+/**
+ * Expiry-aware cache for Executor quotes
+ *
+ * Quotes are keyed by (network, srcChain, dstChain, relayInstructions) and
+ * the Executor client they came from, and expire at the time embedded in the
+ * signed quote. A cached quote is served while it has more than
+ * `refreshMarginMs` left; inside that window a fresh quote is fetched. If that
+ * fetch fails, the cached quote is only served while it still has at least
+ * `refreshMarginMs` left. A fetched quote that is already expired, or whose
+ * expiry cannot be read, is rejected with a SignedQuoteError.
+ */
+
+import type { Network } from '@wormhole-foundation/sdk-base';
+import type {
+    ExecutorClient,
+    ExecutorQuote,
+    ExecutorQuoteParams,
+    QuoteCache,
+    QuoteCacheOptions,
+} from '../config/types';
+import { getExecutorQuote } from './executor';
+import { decodeSignedQuote } from './signedQuote';
+import { SignedQuoteError } from './errors';
+
+interface CacheEntry {
+    quote: ExecutorQuote;
+    expiresAt: number;
+}
+
+// Quotes from an injected client never mix with the default fetch's
+const clientIds = new WeakMap<ExecutorClient, number>();
+let nextClientId = 1;
+
+function clientId(client: ExecutorClient | undefined): string {
+    if (!client) return 'default';
+    let id = clientIds.get(client);
+    if (id === undefined) {
+        id = nextClientId++;
+        clientIds.set(client, id);
+    }
+    return `client${id}`;
+}
+
+function cacheKey(
+    params: ExecutorQuoteParams,
+    network: Network,
+    client?: ExecutorClient
+): string {
+    return [
+        clientId(client),
+        network,
+        params.srcChain,
+        params.dstChain,
+        (params.relayInstructions ?? '0x').toLowerCase(),
+    ].join(':');
+}
+
+/**
+ * Read the expiry time from a signed quote
+ */
+function quoteExpiry(quote: ExecutorQuote): number {
+    try {
+        return decodeSignedQuote(quote.signedQuote).expiryTime.getTime();
+    } catch (error) {
+        throw new SignedQuoteError(
+            'malformed',
+            'Executor returned a quote without a readable expiry',
+            error
+        );
+    }
+}
+
+/**
+ * Create a quote cache
+ * Concurrent requests for the same key share a single fetch.
+ */
+export function createQuoteCache(options: QuoteCacheOptions = {}): QuoteCache {
+    const refreshMarginMs = options.refreshMarginMs ?? 30000;
+    const fetchQuote = options.fetchQuote ?? getExecutorQuote;
+    const now = options.now ?? Date.now;
+
+    const entries = new Map<string, CacheEntry>();
+    const inflight = new Map<string, Promise<ExecutorQuote>>();
+
+    async function refresh(
+        key: string,
+        params: ExecutorQuoteParams,
+        network: Network,
+        client: ExecutorClient | undefined
+    ): Promise<ExecutorQuote> {
+        const quote = client
+            ? await client.getQuote(params)
+            : await fetchQuote(params, network);
+        const expiresAt = quoteExpiry(quote);
+        if (expiresAt <= now()) {
+            throw new SignedQuoteError(
+                'expired',
+                `Executor returned a quote that expired at ${new Date(expiresAt).toISOString()}`
+            );
+        }
+
+        entries.set(key, { quote, expiresAt });
+        return quote;
+    }
+
+    return {
+        async getQuote(params, network = 'Testnet', client) {
+            const key = cacheKey(params, network, client);
+            const cached = entries.get(key);
+            const remaining = cached ? cached.expiresAt - now() : 0;
+
+            if (cached && remaining > refreshMarginMs) {
+                return cached.quote;
+            }
+            if (cached && remaining <= 0) {
+                entries.delete(key);
+            }
+
+            let pending = inflight.get(key);
+            if (!pending) {
+                pending = refresh(key, params, network, client).finally(() =>
+                    inflight.delete(key)
+                );
+                inflight.set(key, pending);
+            }
+
+            try {
+                return await pending;
+            } catch (error) {
+                // A quote that still outlives the refresh margin beats no
+                // quote; one about to expire could lapse before it is used
+                const fallback = entries.get(key);
+                if (fallback && fallback.expiresAt - now() >= refreshMarginMs) {
+                    return fallback.quote;
+                }
+                throw error;
+            }
+        },
+
+        invalidate(params, network = 'Testnet', client) {
+            if (params) {
+                entries.delete(cacheKey(params, network, client));
+            } else {
+                entries.clear();
+            }
+        },
+
+        get size() {
+            return entries.size;
+        },
+    };
+}
+
+/**
+ * Process-wide cache used by sendPriceUpdate and estimatePriceUpdateCost
+ */
+export const defaultQuoteCache = createQuoteCache();
@@ -0,0 +1,141 @@
+/**
+ * Manual redelivery of price update messages
+ *
+ * When the Executor never delivers a message, or its delivery reverted (the
+ * receiver was paused, or the gas limit was too low), anyone can execute the
+ * signed VAA on the destination themselves. The receiver's replay protection
+ * is checked first so a consumed sequence is never submitted again.
+ */
+
+import { encodeFunctionData, type Hash } from 'viem';
+import type {
+    ChainConfig,
+    RedeliveryOptions,
+    RedeliveryResult,
+} from '../config/types';
+import { PriceFeedReceiverABI } from '../config/abi';
+import { getPublicClient, pollForVAA } from './wormhole';
+import { decodePriceFeedRevert, getTargetChainMessages } from './messaging';
+import { getTransactionManager } from './transactionManager';
+import { isMessageDelivered } from './delivery';
+import { getGuardianSet, parsePriceVaa, vaaToHex, verifyVaa } from './vaa';
+import { RedeliveryError } from './errors';
+
+/**
+ * Execute the VAA of a price update on one destination
+ *
+ * Finds the message the source transaction sent to `toConfig`, checks that
+ * the receiver has not consumed it, fetches the signed VAA from Wormholescan,
+ * verifies it against the destination's guardian set and submits
+ * executeVAAv1 from the destination account. Throws RedeliveryError if the
+ * message was not sent, is already delivered, is not signed yet, or the
+ * transaction reverted.
+ */
+export async function redeliverPriceUpdate(
+    fromConfig: ChainConfig,
+    toConfig: ChainConfig,
+    sourceTxHash: Hash,
+    options: RedeliveryOptions = {}
+): Promise<RedeliveryResult> {
+    const chainId = toConfig.wormholeChainId;
+    const sourceClient = await getPublicClient(fromConfig);
+    const sourceReceipt = await sourceClient.getTransactionReceipt({
+        hash: sourceTxHash,
+    });
+    const message = getTargetChainMessages(sourceReceipt, fromConfig).find(
+        (m) => m.chainId === chainId
+    );
+    if (!message) {
+        throw new RedeliveryError(
+            'not-targeted',
+            chainId,
+            undefined,
+            `Source transaction ${sourceTxHash} did not send a message to chain ${chainId}`
+        );
+    }
+    const { sequence } = message;
+
+    const alreadyDelivered = () =>
+        new RedeliveryError(
+            'already-delivered',
+            chainId,
+            sequence,
+            `Sequence ${sequence} has already been delivered to chain ${chainId}`
+        );
+    if (await isMessageDelivered(toConfig, message)) {
+        throw alreadyDelivered();
+    }
+
+    const signed = await pollForVAA(
+        message.emitterChain,
+        message.emitterAddress,
+        Number(sequence),
+        fromConfig.network === 'Mainnet' ? 'Mainnet' : 'Testnet',
+        options.vaaTimeoutMs ?? 60000
+    );
+    if (!signed) {
+        throw new RedeliveryError(
+            'vaa-not-found',
+            chainId,
+            sequence,
+            `VAA for sequence ${sequence} is not signed yet`
+        );
+    }
+    const vaa = parsePriceVaa(signed.vaa);
+    if (options.verify !== false) {
+        await verifyVaa(vaa, {
+            guardianSet: await getGuardianSet(toConfig, vaa.guardianSetIndex),
+            emitterChain: message.emitterChain,
+            emitterAddress: message.emitterAddress,
+        });
+    }
+
+    const transactionManager =
+        options.transactionManager ?? (await getTransactionManager(toConfig));
+    const publicClient = await getPublicClient(toConfig);
+    const call = {
+        address: toConfig.priceFeedAddress,
+        abi: PriceFeedReceiverABI,
+        functionName: 'executeVAAv1',
+        args: [vaaToHex(signed.vaa)],
+        account: transactionManager.address,
+    } as const;
+
+    // Reverts (paused receiver, unknown peer) surface before anything is sent
+    let gas: bigint;
+    try {
+        await publicClient.simulateContract({ ...call, gas: options.gasLimit });
+        gas =
+            options.gasLimit ?? (await publicClient.estimateContractGas(call));
+    } catch (error) {
+        throw decodePriceFeedRevert(error) ?? error;
+    }
+
+    if (options.dryRun) {
+        return { chainId, sequence, vaa, gas, receipt: null };
+    }
+
+    // The Executor may have delivered while the VAA was being fetched
+    if (await isMessageDelivered(toConfig, message)) {
+        throw alreadyDelivered();
+    }
+
+    const { hash, receipt } = await transactionManager.sendTransaction(
+        async () => ({
+            to: toConfig.priceFeedAddress,
+            data: encodeFunctionData(call),
+            gas,
+            context: undefined,
+        })
+    );
+    if (receipt.status === 'reverted') {
+        throw new RedeliveryError(
+            'reverted',
+            chainId,
+            sequence,
+            `executeVAAv1 transaction ${hash} reverted`
+        );
+    }
+
+    return { chainId, sequence, vaa, gas, hash, receipt };
+}
@@ -1,33 +1,184 @@
 /**
- * Relay instructions utilities for Wormhole Executor
+ * Relay instructions codec for Wormhole Executor
+ *
+ * Relay instructions are a concatenation of typed instructions, big-endian:
+ * - 0x01 GasInstruction: gasLimit (uint128) | msgValue (uint128)
+ * - 0x02 GasDropOffInstruction: dropOff (uint128) | recipient (bytes32)
+ *
+ * Note: This is different from the ERV1 prefix used in the VAA request payload.
+ * The relay instructions here tell the Executor how much gas and value to
+ * provide when calling _executeVaa on the target chain.
  */
 
+import { concat, isHex, numberToHex, pad, size, slice, type Hex } from 'viem';
+import type { RelayInstruction } from '../config/types';
+import { RelayInstructionsError } from './errors';
+
 // Import constants from centralized config
 export { DEFAULT_GAS_LIMIT, DEFAULT_MSG_VALUE } from '../config/relay';
 
+export const GAS_INSTRUCTION_TYPE = 1;
+export const GAS_DROP_OFF_INSTRUCTION_TYPE = 2;
+
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+// Instruction sizes including the type byte
+const GAS_INSTRUCTION_SIZE = 33;
+const GAS_DROP_OFF_INSTRUCTION_SIZE = 49;
+
+function encodeUint128(value: bigint, field: string): Hex {
+    if (value < 0n || value > MAX_UINT128) {
+        throw new RelayInstructionsError(
+            'out-of-range',
+            `${field} ${value} does not fit in a uint128`
+        );
+    }
+    return numberToHex(value, { size: 16 });
+}
+
+function encodeRecipient(recipient: Hex): Hex {
+    if (!isHex(recipient) || (size(recipient) !== 20 && size(recipient) !== 32)) {
+        throw new RelayInstructionsError(
+            'malformed',
+            `Drop-off recipient must be a 20-byte address or 32-byte universal address, got ${recipient}`
+        );
+    }
+    return pad(recipient, { size: 32 });
+}
+
+/**
+ * Encode relay instructions in the given order
+ * Drop-off recipients may be EVM addresses; they are padded to bytes32
+ */
+export function encodeRelayInstructions(instructions: RelayInstruction[]): Hex {
+    return concat([
+        '0x',
+        ...instructions.map((instruction) => {
+            switch (instruction.type) {
+                case 'GasInstruction':
+                    return concat([
+                        numberToHex(GAS_INSTRUCTION_TYPE, { size: 1 }),
+                        encodeUint128(instruction.gasLimit, 'gasLimit'),
+                        encodeUint128(instruction.msgValue, 'msgValue'),
+                    ]);
+                case 'GasDropOffInstruction':
+                    return concat([
+                        numberToHex(GAS_DROP_OFF_INSTRUCTION_TYPE, { size: 1 }),
+                        encodeUint128(instruction.dropOff, 'dropOff'),
+                        encodeRecipient(instruction.recipient),
+                    ]);
+            }
+        }),
+    ]);
+}
+
+/**
+ * Decode concatenated relay instructions
+ * Throws RelayInstructionsError on unknown types or truncated input
+ */
+export function decodeRelayInstructions(
+    relayInstructions: Hex | string
+): RelayInstruction[] {
+    if (!isHex(relayInstructions)) {
+        throw new RelayInstructionsError(
+            'malformed',
+            'Relay instructions are not hex'
+        );
+    }
+
+    const instructions: RelayInstruction[] = [];
+    const length = size(relayInstructions);
+    let offset = 0;
+
+    while (offset < length) {
+        const type = Number(slice(relayInstructions, offset, offset + 1));
+        const instructionSize =
+            type === GAS_INSTRUCTION_TYPE
+                ? GAS_INSTRUCTION_SIZE
+                : type === GAS_DROP_OFF_INSTRUCTION_TYPE
+                  ? GAS_DROP_OFF_INSTRUCTION_SIZE
+                  : undefined;
+
+        if (instructionSize === undefined) {
+            throw new RelayInstructionsError(
+                'unknown-type',
+                `Unknown relay instruction type ${type} at byte ${offset}`
+            );
+        }
+        if (offset + instructionSize > length) {
+            throw new RelayInstructionsError(
+                'malformed',
+                `Relay instruction at byte ${offset} is truncated`
+            );
+        }
+
+        const first = BigInt(slice(relayInstructions, offset + 1, offset + 17));
+        instructions.push(
+            type === GAS_INSTRUCTION_TYPE
+                ? {
+                      type: 'GasInstruction',
+                      gasLimit: first,
+                      msgValue: BigInt(
+                          slice(relayInstructions, offset + 17, offset + 33)
+                      ),
+                  }
+                : {
+                      type: 'GasDropOffInstruction',
+                      dropOff: first,
+                      recipient: slice(
+                          relayInstructions,
+                          offset + 17,
+                          offset + 49
+                      ),
+                  }
+        );
+        offset += instructionSize;
+    }
+
+    return instructions;
+}
+
+/**
+ * Total gas limit, msg.value and drop-off requested by relay instructions
+ */
+export function totalRelayInstructions(instructions: RelayInstruction[]): {
+    gasLimit: bigint;
+    msgValue: bigint;
+    dropOff: bigint;
+} {
+    return instructions.reduce(
+        (totals, instruction) =>
+            instruction.type === 'GasInstruction'
+                ? {
+                      ...totals,
+                      gasLimit: totals.gasLimit + instruction.gasLimit,
+                      msgValue: totals.msgValue + instruction.msgValue,
+                  }
+                : { ...totals, dropOff: totals.dropOff + instruction.dropOff },
+        { gasLimit: 0n, msgValue: 0n, dropOff: 0n }
+    );
+}
+
 /**
  * Create relay instructions for the Executor quote request
  *
- * Relay instructions tell the Executor:
- * - How much gas to provide when calling _executeVaa on the target chain
- * - How much native token (msg.value) to forward (typically 0 for this use case)
- *
- * Format: 0x01 (version byte) + uint128 gasLimit (16 bytes) + uint128 msgValue (16 bytes)
- *
- * Note: This is different from the ERV1 prefix used in the VAA request payload.
- * The relay instructions here are just metadata for the quote calculation.
+ * A gas instruction for _executeVaa on the target chain, optionally followed
+ * by a gas drop-off of native tokens to `dropOff.recipient`.
  */
 export function createRelayInstructions(
     gasLimit: bigint,
-    msgValue: bigint
-): string {
-    // Version byte 0x01 for relay instructions format
-    const version = '01';
-
-    // Encode as uint128 (16 bytes each, big-endian)
-    const gasLimitHex = gasLimit.toString(16).padStart(32, '0'); // 16 bytes = 32 hex chars
-    const msgValueHex = msgValue.toString(16).padStart(32, '0'); // 16 bytes = 32 hex chars
-
-    // Combine: 0x + version (1 byte) + gasLimit (16 bytes) + msgValue (16 bytes)
-    return '0x' + version + gasLimitHex + msgValueHex;
+    msgValue: bigint,
+    dropOff?: { amount: bigint; recipient: Hex }
+): Hex {
+    const instructions: RelayInstruction[] = [
+        { type: 'GasInstruction', gasLimit, msgValue },
+    ];
+    if (dropOff) {
+        instructions.push({
+            type: 'GasDropOffInstruction',
+            dropOff: dropOff.amount,
+            recipient: dropOff.recipient,
+        });
+    }
+    return encodeRelayInstructions(instructions);
 }
@@ -0,0 +1,196 @@
+/**
+ * Signed quote decoding and verification for Wormhole Executor quotes
+ *
+ * Layout (EQ01), big-endian:
+ * prefix (4) | quoterAddress (20) | payeeAddress (32) | srcChain (2) | dstChain (2)
+ * | expiryTime (8) | baseFee (8) | dstGasPrice (8) | srcPrice (8) | dstPrice (8)
+ * | signature (65)
+ *
+ * Source: https://github.com/wormhole-foundation/wormhole-sdk-ts/blob/main/core/definitions/src/protocols/executor/signedQuote.ts
+ */
+
+import {
+    concat,
+    getAddress,
+    hexToBigInt,
+    hexToNumber,
+    isHex,
+    keccak256,
+    numberToHex,
+    pad,
+    recoverAddress,
+    size,
+    slice,
+    type Address,
+    type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type {
+    DecodedSignedQuote,
+    QuoteVerificationOptions,
+} from '../config/types';
+import { SignedQuoteError } from './errors';
+
+/** "EQ01" in ASCII */
+export const SIGNED_QUOTE_PREFIX = '0x45513031';
+
+const QUOTE_BODY_LENGTH = 100;
+const SIGNATURE_LENGTH = 65;
+
+/**
+ * Decode a signed quote into its typed fields
+ * Does not check the signature - use verifySignedQuote for that
+ */
+export function decodeSignedQuote(signedQuote: Hex): DecodedSignedQuote {
+    if (!isHex(signedQuote)) {
+        throw new SignedQuoteError('malformed', 'Signed quote is not hex');
+    }
+    if (size(signedQuote) !== QUOTE_BODY_LENGTH + SIGNATURE_LENGTH) {
+        throw new SignedQuoteError(
+            'malformed',
+            `Signed quote must be ${
+                QUOTE_BODY_LENGTH + SIGNATURE_LENGTH
+            } bytes, got ${size(signedQuote)}`
+        );
+    }
+
+    const prefix = slice(signedQuote, 0, 4);
+    if (prefix.toLowerCase() !== SIGNED_QUOTE_PREFIX) {
+        throw new SignedQuoteError(
+            'malformed',
+            `Unknown signed quote prefix: ${prefix}`
+        );
+    }
+
+    return {
+        prefix: 'EQ01',
+        quoterAddress: getAddress(slice(signedQuote, 4, 24)),
+        payeeAddress: slice(signedQuote, 24, 56),
+        srcChain: hexToNumber(slice(signedQuote, 56, 58)),
+        dstChain: hexToNumber(slice(signedQuote, 58, 60)),
+        expiryTime: new Date(
+            Number(hexToBigInt(slice(signedQuote, 60, 68))) * 1000
+        ),
+        baseFee: hexToBigInt(slice(signedQuote, 68, 76)),
+        dstGasPrice: hexToBigInt(slice(signedQuote, 76, 84)),
+        srcPrice: hexToBigInt(slice(signedQuote, 84, 92)),
+        dstPrice: hexToBigInt(slice(signedQuote, 92, 100)),
+        signature: slice(signedQuote, QUOTE_BODY_LENGTH),
+    };
+}
+
+/**
+ * Recover the address that signed the quote
+ * The quoter signs keccak256 of the quote body (everything before the signature)
+ */
+export async function recoverQuoteSigner(signedQuote: Hex): Promise<Address> {
+    const body = slice(signedQuote, 0, QUOTE_BODY_LENGTH);
+    const signature = slice(signedQuote, QUOTE_BODY_LENGTH);
+    return recoverAddress({ hash: keccak256(body), signature });
+}
+
+/**
+ * Decode a signed quote and check it locally before it is used on-chain
+ *
+ * Verifies that the signature was produced by the embedded quoter address,
+ * that the quoter is in the allowlist, that the quote is for the expected
+ * route and that it has not expired.
+ */
+export async function verifySignedQuote(
+    signedQuote: Hex,
+    options: QuoteVerificationOptions
+): Promise<DecodedSignedQuote> {
+    const decoded = decodeSignedQuote(signedQuote);
+
+    let signer: Address;
+    try {
+        signer = await recoverQuoteSigner(signedQuote);
+    } catch (error) {
+        throw new SignedQuoteError(
+            'bad-signature',
+            'Could not recover signed quote signer',
+            error
+        );
+    }
+    if (signer !== decoded.quoterAddress) {
+        throw new SignedQuoteError(
+            'bad-signature',
+            `Signed quote was signed by ${signer}, not quoter ${decoded.quoterAddress}`
+        );
+    }
+
+    const trusted = options.trustedQuoters.map((address) =>
+        getAddress(address)
+    );
+    if (!trusted.includes(decoded.quoterAddress)) {
+        throw new SignedQuoteError(
+            'untrusted-quoter',
+            `Quoter ${decoded.quoterAddress} is not in the trusted quoter list`
+        );
+    }
+
+    if (
+        options.srcChain !== undefined &&
+        decoded.srcChain !== options.srcChain
+    ) {
+        throw new SignedQuoteError(
+            'route-mismatch',
+            `Quote source chain ${decoded.srcChain} does not match ${options.srcChain}`
+        );
+    }
+    if (
+        options.dstChain !== undefined &&
+        decoded.dstChain !== options.dstChain
+    ) {
+        throw new SignedQuoteError(
+            'route-mismatch',
+            `Quote destination chain ${decoded.dstChain} does not match ${options.dstChain}`
+        );
+    }
+
+    const now = options.now ?? new Date();
+    if (decoded.expiryTime.getTime() <= now.getTime()) {
+        throw new SignedQuoteError(
+            'expired',
+            `Quote expired at ${decoded.expiryTime.toISOString()}`
+        );
+    }
+
+    return decoded;
+}
+
+/**
+ * Encode the unsigned quote body (everything the quoter signs)
+ */
+export function encodeQuoteBody(
+    quote: Omit<DecodedSignedQuote, 'prefix' | 'signature'>
+): Hex {
+    return concat([
+        SIGNED_QUOTE_PREFIX,
+        quote.quoterAddress,
+        pad(quote.payeeAddress, { size: 32 }),
+        numberToHex(quote.srcChain, { size: 2 }),
+        numberToHex(quote.dstChain, { size: 2 }),
+        numberToHex(BigInt(Math.floor(quote.expiryTime.getTime() / 1000)), {
+            size: 8,
+        }),
+        numberToHex(quote.baseFee, { size: 8 }),
+        numberToHex(quote.dstGasPrice, { size: 8 }),
+        numberToHex(quote.srcPrice, { size: 8 }),
+        numberToHex(quote.dstPrice, { size: 8 }),
+    ]);
+}
+
+/**
+ * Sign a quote as the quoter - for local testing and mock executors
+ * `quoterAddress` is taken from the private key
+ */
+export async function signQuote(
+    quote: Omit<DecodedSignedQuote, 'prefix' | 'signature' | 'quoterAddress'>,
+    quoterPrivateKey: Hex
+): Promise<Hex> {
+    const account = privateKeyToAccount(quoterPrivateKey);
+    const body = encodeQuoteBody({ ...quote, quoterAddress: account.address });
+    const signature = await account.sign({ hash: keccak256(body) });
+    return concat([body, signature]);
+}
@@ -0,0 +1,356 @@
+/**
+ * Signers for the accounts that send transactions
+ *
+ * A chain's account can come from a plaintext private key, an encrypted JSON
+ * keystore, a BIP-39 mnemonic or a remote JSON-RPC signer, so feeder keys do
+ * not have to sit in environment files. Every signer is a viem LocalAccount:
+ * transactions are signed (locally or remotely) and sent as raw transactions.
+ */
+
+import {
+    bytesToHex,
+    concat,
+    formatTransactionRequest,
+    keccak256,
+    numberToHex,
+    serializeTypedData,
+    toHex,
+    type Address,
+    type Hex,
+    type LocalAccount,
+    type SignableMessage,
+    type TransactionRequest,
+} from 'viem';
+import {
+    mnemonicToAccount,
+    privateKeyToAccount,
+    toAccount,
+} from 'viem/accounts';
+import type { ChainConfig, SignerConfig } from '../config/types';
+import { SignerError } from './errors';
+
+const DEFAULT_MNEMONIC_PATH = "m/44'/60'/0'/0/0";
+
+/**
+ * The signer configured for a chain: `signer`, or else `privateKey`
+ */
+export function getSignerConfig(chainConfig: ChainConfig): SignerConfig {
+    if (chainConfig.signer) return chainConfig.signer;
+    if (chainConfig.privateKey) {
+        return { type: 'privateKey', privateKey: chainConfig.privateKey };
+    }
+    throw new SignerError(
+        'not-configured',
+        `No signer configured for ${chainConfig.chain}`
+    );
+}
+
+/**
+ * Web3 Secret Storage (v3) keystore, as far as decryptKeystore reads it
+ */
+interface Keystore {
+    version: number;
+    crypto?: KeystoreCrypto;
+    /** Written by some older clients */
+    Crypto?: KeystoreCrypto;
+}
+
+interface KeystoreCrypto {
+    cipher: string;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: string;
+    kdfparams: {
+        salt: string;
+        dklen: number;
+        /** scrypt */
+        n?: number;
+        r?: number;
+        p?: number;
+        /** pbkdf2 */
+        c?: number;
+        prf?: string;
+    };
+    mac: string;
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) keystore into its private key
+ * Supports the scrypt and pbkdf2 (hmac-sha256) KDFs with aes-128-ctr.
+ */
+export async function decryptKeystore(
+    keystore: string | object,
+    password: string
+): Promise<Hex> {
+    const { createDecipheriv, pbkdf2Sync, scryptSync } =
+        await import('node:crypto');
+
+    let crypto: KeystoreCrypto | undefined;
+    try {
+        const json = (
+            typeof keystore === 'string' ? JSON.parse(keystore) : keystore
+        ) as Keystore;
+        crypto = json.crypto ?? json.Crypto;
+        if (json.version !== 3 || !crypto) throw new Error('not version 3');
+    } catch (error) {
+        throw new SignerError(
+            'malformed',
+            'Keystore is not a version 3 JSON keystore',
+            error
+        );
+    }
+    if (crypto.cipher !== 'aes-128-ctr') {
+        throw new SignerError(
+            'malformed',
+            `Unsupported keystore cipher ${crypto.cipher}`
+        );
+    }
+
+    const { kdf, kdfparams: params } = crypto;
+    if (
+        kdf !== 'scrypt' &&
+        !(kdf === 'pbkdf2' && params?.prf === 'hmac-sha256')
+    ) {
+        throw new SignerError('malformed', `Unsupported keystore KDF ${kdf}`);
+    }
+
+    // Missing fields and parameters OpenSSL rejects (e.g. an scrypt N it
+    // cannot run with the given r) surface here
+    let derivedKey: Buffer;
+    let ciphertext: Buffer;
+    try {
+        const salt = Buffer.from(params.salt, 'hex');
+        derivedKey =
+            kdf === 'scrypt'
+                ? scryptSync(password, salt, params.dklen, {
+                      N: params.n,
+                      r: params.r,
+                      p: params.p,
+                      maxmem: 256 * params.n! * params.r! * params.p!,
+                  })
+                : pbkdf2Sync(password, salt, params.c!, params.dklen, 'sha256');
+        ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+    } catch (error) {
+        throw new SignerError(
+            'malformed',
+            `Cannot derive the keystore key: ${(error as Error).message}`,
+            error
+        );
+    }
+
+    const mac = keccak256(
+        concat([
+            bytesToHex(derivedKey.subarray(16, 32)),
+            bytesToHex(ciphertext),
+        ])
+    );
+    if (mac.slice(2) !== crypto.mac?.toLowerCase()) {
+        throw new SignerError('bad-password', 'Wrong keystore password');
+    }
+
+    try {
+        const decipher = createDecipheriv(
+            'aes-128-ctr',
+            derivedKey.subarray(0, 16),
+            Buffer.from(crypto.cipherparams.iv, 'hex')
+        );
+        return bytesToHex(
+            Buffer.concat([decipher.update(ciphertext), decipher.final()])
+        );
+    } catch (error) {
+        throw new SignerError(
+            'malformed',
+            `Cannot decrypt the keystore: ${(error as Error).message}`,
+            error
+        );
+    }
+}
+
+/**
+ * JSON-RPC response from a remote signer
+ */
+interface JsonRpcResponse<T> {
+    result?: T;
+    error?: { code?: number; message?: string };
+}
+
+/**
+ * Send a JSON-RPC request to a remote signer
+ */
+async function remoteRequest<T>(
+    signer: Extract<SignerConfig, { type: 'remote' }>,
+    method: string,
+    params: unknown[]
+): Promise<T> {
+    let body: JsonRpcResponse<T>;
+    try {
+        const response = await fetch(signer.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...signer.headers },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        body = (await response.json()) as JsonRpcResponse<T>;
+    } catch (error) {
+        throw new SignerError(
+            'remote-error',
+            `Remote signer ${method} failed: ${(error as Error).message}`,
+            error
+        );
+    }
+    if (body.error) {
+        throw new SignerError(
+            'remote-error',
+            `Remote signer ${method} failed: ${body.error.message ?? JSON.stringify(body.error)}`
+        );
+    }
+    if (body.result === undefined) {
+        throw new SignerError(
+            'remote-error',
+            `Remote signer ${method} returned no result`
+        );
+    }
+    return body.result;
+}
+
+function toSignableHex(message: SignableMessage): Hex {
+    if (typeof message === 'string') return toHex(message);
+    return typeof message.raw === 'string'
+        ? message.raw
+        : bytesToHex(message.raw);
+}
+
+/**
+ * Account that signs through a remote JSON-RPC signer
+ * Transactions use eth_signTransaction, messages personal_sign and typed
+ * data eth_signTypedData_v4; the signer must hold the key for `address`.
+ */
+export function createRemoteSignerAccount(
+    signer: Extract<SignerConfig, { type: 'remote' }>
+): LocalAccount {
+    const address = signer.address;
+
+    return toAccount({
+        address,
+
+        async signTransaction(transaction) {
+            const request = formatTransactionRequest({
+                ...transaction,
+                from: address,
+            } as TransactionRequest);
+            const result = await remoteRequest<Hex | { raw: Hex }>(
+                signer,
+                'eth_signTransaction',
+                [
+                    {
+                        ...request,
+                        chainId:
+                            transaction.chainId !== undefined
+                                ? numberToHex(transaction.chainId)
+                                : undefined,
+                    },
+                ]
+            );
+            // Geth returns { raw, tx }, most signers the raw transaction
+            return typeof result === 'string' ? result : result.raw;
+        },
+
+        async signMessage({ message }) {
+            return remoteRequest<Hex>(signer, 'personal_sign', [
+                toSignableHex(message),
+                address,
+            ]);
+        },
+
+        async signTypedData(typedData) {
+            return remoteRequest<Hex>(signer, 'eth_signTypedData_v4', [
+                address,
+                serializeTypedData(typedData),
+            ]);
+        },
+    });
+}
+
+/**
+ * Create the account for a signer config
+ * Keystores are decrypted here, which takes a moment with scrypt.
+ */
+export async function createSignerAccount(
+    signer: SignerConfig
+): Promise<LocalAccount> {
+    switch (signer.type) {
+        case 'privateKey':
+            return privateKeyToAccount(signer.privateKey);
+        case 'keystore': {
+            const { readFile } = await import('node:fs/promises');
+            const keystore = await readFile(signer.path, 'utf8');
+            return privateKeyToAccount(
+                await decryptKeystore(keystore, signer.password)
+            );
+        }
+        case 'mnemonic':
+            try {
+                return mnemonicToAccount(signer.mnemonic, {
+                    path: signer.path ?? DEFAULT_MNEMONIC_PATH,
+                    passphrase: signer.passphrase,
+                });
+            } catch (error) {
+                throw new SignerError(
+                    'malformed',
+                    'Invalid mnemonic or derivation path',
+                    error
+                );
+            }
+        case 'remote':
+            return createRemoteSignerAccount(signer);
+    }
+}
+
+const signerAccounts = new Map<string, Promise<LocalAccount>>();
+
+/**
+ * Memo key for a signer, without its secrets
+ * Keystores and remote signers are shared across chains; keys and mnemonics
+ * are only identified by the chain they are configured for.
+ */
+function signerKey(chainConfig: ChainConfig, signer: SignerConfig): string {
+    switch (signer.type) {
+        case 'privateKey':
+            return `${chainConfig.chain}:privateKey`;
+        case 'keystore':
+            return `keystore:${signer.path}`;
+        case 'mnemonic':
+            return `${chainConfig.chain}:mnemonic:${signer.path ?? DEFAULT_MNEMONIC_PATH}`;
+        case 'remote':
+            return `remote:${signer.url}:${signer.address}`;
+    }
+}
+
+/**
+ * Account that signs for a chain config, created once per signer
+ */
+export async function getSignerAccount(
+    chainConfig: ChainConfig
+): Promise<LocalAccount> {
+    const signer = getSignerConfig(chainConfig);
+    const key = signerKey(chainConfig, signer);
+
+    let account = signerAccounts.get(key);
+    if (!account) {
+        account = createSignerAccount(signer);
+        account.catch(() => signerAccounts.delete(key));
+        signerAccounts.set(key, account);
+    }
+    return account;
+}
+
+/**
+ * Address of a chain config's account
+ */
+export async function getSignerAddress(
+    chainConfig: ChainConfig
+): Promise<Address> {
+    return (await getSignerAccount(chainConfig)).address;
+}
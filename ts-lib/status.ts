@@ -0,0 +1,222 @@
+/**
+ * Typed Executor relay status model and per-destination tracking
+ *
+ * A source transaction that targets N chains produces N Executor relays.
+ * The tracker polls the status API and follows every destination until each
+ * one reaches a final status (executed, error, underpaid or aborted).
+ *
+ * `executed` is final for the Executor only: its destination transaction was
+ * broadcast and included, not necessarily successful. Check the receipts of
+ * `destinationTxHashes` (as checkDelivery does) before treating it as delivered.
+ */
+
+import {
+    toChainId,
+    type Chain,
+    type Network,
+} from '@wormhole-foundation/sdk-base';
+import type {
+    ExecutorClient,
+    ExecutorRelayStatus,
+    ExecutorStatusResponse,
+    RelayStatusKind,
+    RelayTrackerOptions,
+    RelayTrackerUpdate,
+} from '../config/types';
+import { getDefaultExecutorClient } from './executorClient';
+import { ExecutorStatusTimeoutError } from './errors';
+
+const FINAL_STATUSES: ReadonlySet<RelayStatusKind> = new Set([
+    'executed',
+    'error',
+    'underpaid',
+    'aborted',
+]);
+
+/**
+ * Whether a relay status will not change any more
+ */
+export function isFinalRelayStatus(status: ExecutorRelayStatus): boolean {
+    return FINAL_STATUSES.has(status.status);
+}
+
+/**
+ * Convert a raw Executor status record into the typed status model
+ *
+ * The Executor reports `submitted` once it has sent the destination
+ * transaction, and lists that transaction in `txs` once it is included.
+ * A submitted relay with destination transactions is therefore `executed`,
+ * which says nothing about whether those transactions reverted.
+ */
+export function parseRelayStatus(
+    raw: ExecutorStatusResponse
+): ExecutorRelayStatus {
+    const base = {
+        dstChain: raw.requestForExecution?.dstChain ?? 0,
+        sourceTxHash: raw.txHash,
+        requestId: raw.id,
+        destinationTxHashes: (raw.txs ?? []).map((tx) => tx.txHash),
+        raw,
+    };
+    const reason = raw.failureCause || `Executor reported ${raw.status}`;
+
+    switch (raw.status.toLowerCase()) {
+        case 'pending':
+            return { ...base, status: 'pending' };
+        case 'submitted':
+            return base.destinationTxHashes.length > 0
+                ? { ...base, status: 'executed' }
+                : { ...base, status: 'submitted' };
+        case 'executed':
+        case 'completed':
+        case 'success':
+            return { ...base, status: 'executed' };
+        case 'underpaid':
+            return { ...base, status: 'underpaid', reason };
+        case 'aborted':
+            return { ...base, status: 'aborted', reason };
+        default:
+            // failed, unsupported and anything unknown
+            return { ...base, status: 'error', reason };
+    }
+}
+
+/**
+ * Get typed relay statuses for a source transaction
+ */
+export async function getRelayStatuses(
+    txHash: string,
+    srcChain?: number,
+    network: Network = 'Testnet',
+    client: ExecutorClient = getDefaultExecutorClient(network)
+): Promise<ExecutorRelayStatus[]> {
+    const records = await client.getStatus(txHash, srcChain);
+    return records.map(parseRelayStatus);
+}
+
+/**
+ * Follow every destination of a source transaction until each is final
+ *
+ * Yields a snapshot whenever at least one destination changes status; the
+ * last snapshot has `done: true`. Throws ExecutorStatusTimeoutError if some
+ * destinations are still not final when the timeout elapses.
+ */
+export async function* trackExecutorRelays(
+    txHash: string,
+    srcChain: number,
+    dstChains: number[],
+    network: Network = 'Testnet',
+    options: RelayTrackerOptions = {}
+): AsyncGenerator<RelayTrackerUpdate, void, undefined> {
+    const pollIntervalMs = options.pollIntervalMs ?? 3000;
+    const timeoutMs = options.timeoutMs ?? 180000;
+    const startTime = Date.now();
+
+    const statuses: Record<number, ExecutorRelayStatus | undefined> =
+        Object.fromEntries(dstChains.map((chainId) => [chainId, undefined]));
+    const isDone = () =>
+        dstChains.every((chainId) => {
+            const status = statuses[chainId];
+            return status !== undefined && isFinalRelayStatus(status);
+        });
+
+    while (Date.now() - startTime < timeoutMs) {
+        options.signal?.throwIfAborted();
+
+        let records: ExecutorRelayStatus[] = [];
+        try {
+            records = await getRelayStatuses(
+                txHash,
+                srcChain,
+                network,
+                options.client
+            );
+        } catch {
+            // Transient API errors - keep polling
+        }
+
+        const changed: number[] = [];
+        for (const record of records) {
+            if (!dstChains.includes(record.dstChain)) continue;
+            const previous = statuses[record.dstChain];
+            if (
+                previous?.status !== record.status ||
+                previous.destinationTxHashes.length !==
+                    record.destinationTxHashes.length
+            ) {
+                statuses[record.dstChain] = record;
+                changed.push(record.dstChain);
+            }
+        }
+
+        const done = isDone();
+        if (changed.length > 0) {
+            yield { statuses: { ...statuses }, changed, done };
+        }
+        if (done) return;
+
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+
+    throw new ExecutorStatusTimeoutError(
+        txHash,
+        dstChains.filter((chainId) => {
+            const status = statuses[chainId];
+            return status === undefined || !isFinalRelayStatus(status);
+        }),
+        { ...statuses }
+    );
+}
+
+/**
+ * Wait until every destination of a source transaction is final
+ * Returns the final status per destination Wormhole chain ID
+ */
+export async function waitForExecutorRelays(
+    txHash: string,
+    srcChain: number,
+    dstChains: number[],
+    network: Network = 'Testnet',
+    options: RelayTrackerOptions = {}
+): Promise<Record<number, ExecutorRelayStatus>> {
+    let last: RelayTrackerUpdate | undefined;
+    for await (const update of trackExecutorRelays(
+        txHash,
+        srcChain,
+        dstChains,
+        network,
+        options
+    )) {
+        last = update;
+    }
+    return (last?.statuses ?? {}) as Record<number, ExecutorRelayStatus>;
+}
+
+/**
+ * Poll until the Executor reports at least one relay for the transaction
+ * Throws ExecutorStatusTimeoutError if nothing is reported within the timeout
+ */
+export async function pollForExecutorStatus(
+    chain: Chain,
+    txHash: string,
+    network: Network = 'Testnet',
+    timeoutMs: number = 60000
+): Promise<ExecutorRelayStatus[]> {
+    const startTime = Date.now();
+    const srcChain = toChainId(chain);
+
+    while (Date.now() - startTime < timeoutMs) {
+        try {
+            const statuses = await getRelayStatuses(txHash, srcChain, network);
+            if (statuses.length > 0) {
+                return statuses;
+            }
+        } catch {
+            // Ignore errors and continue polling
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+    }
+
+    throw new ExecutorStatusTimeoutError(txHash, [], {});
+}
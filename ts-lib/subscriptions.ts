@@ -0,0 +1,243 @@
+/**
+ * Push-based price feed event subscriptions
+ *
+ * With a WebSocket RPC (`wsUrl`) events are pushed by `eth_subscribe`;
+ * otherwise, or if the socket fails, new blocks are polled at an interval
+ * that shortens while blocks arrive and grows while the chain is idle. Logs
+ * are only requested when there is a new block.
+ *
+ * Events are delivered in block order, each once. Reorged events are not
+ * retracted - use the indexer where that matters.
+ */
+
+import type {
+    Abi,
+    ContractEventArgsFromTopics,
+    ContractEventName,
+    Log,
+} from 'viem';
+import type {
+    ChainConfig,
+    PriceFeedEvent,
+    PricesReceivedEvent,
+    PricesUpdatedEvent,
+    Subscription,
+    SubscriptionMode,
+    SubscriptionOptions,
+} from '../config/types';
+import { PriceFeedEventsABI } from '../config/abi';
+import { getClientRegistry, nextPollInterval } from './wormhole';
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Subscribe to one event of the chain's price feed contract
+ * `toArgs` maps the decoded log args to the event's args.
+ */
+async function subscribe<
+    const TAbi extends Abi,
+    TEventName extends ContractEventName<TAbi>,
+    TArgs,
+>(
+    chainConfig: ChainConfig,
+    abi: TAbi,
+    eventName: TEventName,
+    toArgs: (args: ContractEventArgsFromTopics<TAbi, TEventName>) => TArgs,
+    handler: (event: PriceFeedEvent<TArgs>) => void,
+    options: SubscriptionOptions
+): Promise<Subscription> {
+    const registry = getClientRegistry();
+    const publicClient = await registry.getPublicClient(chainConfig);
+    const bounds = {
+        minMs: options.minPollIntervalMs ?? 1000,
+        maxMs: options.maxPollIntervalMs ?? 15000,
+    };
+    const onError = (error: unknown) => options.onError?.(toError(error));
+    // Logs of strict event queries always carry the decoded args
+    type EventLog = Log & {
+        args: ContractEventArgsFromTopics<TAbi, TEventName>;
+    };
+
+    let mode: SubscriptionMode = 'polling';
+    let stopped = false;
+    let unwatch: (() => void) | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Last block with delivered events, and the log indexes delivered in it
+    let lastBlock: bigint | undefined;
+    let lastBlockLogs = new Set<number>();
+
+    function deliver(logs: Log[]) {
+        for (const log of logs) {
+            const blockNumber = log.blockNumber!;
+            if (lastBlock !== undefined && blockNumber < lastBlock) continue;
+            if (blockNumber === lastBlock && lastBlockLogs.has(log.logIndex!)) {
+                continue;
+            }
+            if (blockNumber !== lastBlock) {
+                lastBlock = blockNumber;
+                lastBlockLogs = new Set();
+            }
+            lastBlockLogs.add(log.logIndex!);
+
+            try {
+                handler({
+                    chainId: chainConfig.wormholeChainId,
+                    blockNumber,
+                    blockHash: log.blockHash!,
+                    transactionHash: log.transactionHash!,
+                    logIndex: log.logIndex!,
+                    args: toArgs((log as EventLog).args),
+                });
+            } catch (error) {
+                onError(error);
+            }
+        }
+    }
+
+    function getLogs(fromBlock: bigint, toBlock: bigint): Promise<Log[]> {
+        return publicClient.getContractEvents({
+            address: chainConfig.priceFeedAddress,
+            abi,
+            eventName,
+            fromBlock,
+            toBlock,
+            strict: true,
+        });
+    }
+
+    // Poll from `fromBlock`; blocks already delivered are filtered by deliver()
+    function startPolling(fromBlock: bigint) {
+        mode = 'polling';
+        let nextBlock = fromBlock;
+        let interval = bounds.minMs;
+
+        const tick = async () => {
+            let hadUpdate = false;
+            try {
+                const latest = await publicClient.getBlockNumber({
+                    cacheTime: 0,
+                });
+                if (latest >= nextBlock) {
+                    hadUpdate = true;
+                    deliver(await getLogs(nextBlock, latest));
+                    nextBlock = latest + 1n;
+                }
+            } catch (error) {
+                onError(error);
+            }
+            if (stopped) return;
+            interval = nextPollInterval(interval, hadUpdate, bounds);
+            timer = setTimeout(tick, interval);
+        };
+        timer = setTimeout(tick, 0);
+    }
+
+    const startBlock = await publicClient.getBlockNumber();
+    const firstBlock = options.fromBlock ?? startBlock + 1n;
+    const webSocketClient =
+        options.mode === 'polling'
+            ? undefined
+            : await registry.getWebSocketClient(chainConfig);
+
+    if (options.mode === 'websocket' && !webSocketClient) {
+        throw new Error(`No WebSocket RPC configured for ${chainConfig.chain}`);
+    }
+
+    if (!webSocketClient) {
+        startPolling(firstBlock);
+    } else {
+        mode = 'websocket';
+        // Logs pushed while the backfill runs are held back to keep block order
+        let buffered: Log[] | undefined = [];
+
+        unwatch = webSocketClient.watchContractEvent({
+            address: chainConfig.priceFeedAddress,
+            abi,
+            eventName,
+            strict: true,
+            onLogs: (logs) => {
+                if (buffered) buffered.push(...(logs as Log[]));
+                else deliver(logs as Log[]);
+            },
+            onError: (error) => {
+                onError(error);
+                if (stopped || mode === 'polling') return;
+                unwatch?.();
+                unwatch = undefined;
+                // Pick up from the last delivered block so nothing is missed
+                startPolling(lastBlock ?? firstBlock);
+            },
+        });
+
+        if (firstBlock <= startBlock) {
+            try {
+                deliver(await getLogs(firstBlock, startBlock));
+            } catch (error) {
+                onError(error);
+            }
+        }
+        const pushed = buffered;
+        buffered = undefined;
+        deliver(pushed);
+    }
+
+    const subscription: Subscription = {
+        get mode() {
+            return mode;
+        },
+        unsubscribe() {
+            stopped = true;
+            unwatch?.();
+            clearTimeout(timer);
+        },
+    };
+    options.signal?.addEventListener('abort', () => subscription.unsubscribe());
+    return subscription;
+}
+
+/**
+ * Subscribe to PricesReceived on a receiver (deliveries from the sender)
+ */
+export function onPricesReceived(
+    chainConfig: ChainConfig,
+    handler: (event: PricesReceivedEvent) => void,
+    options: SubscriptionOptions = {}
+): Promise<Subscription> {
+    return subscribe(
+        chainConfig,
+        PriceFeedEventsABI,
+        'PricesReceived',
+        (args) => ({
+            count: args.count,
+            senderChain: Number(args.senderChain),
+            sender: args.sender,
+        }),
+        handler,
+        options
+    );
+}
+
+/**
+ * Subscribe to PricesUpdated on the sender (one per target chain message)
+ */
+export function onPricesUpdated(
+    chainConfig: ChainConfig,
+    handler: (event: PricesUpdatedEvent) => void,
+    options: SubscriptionOptions = {}
+): Promise<Subscription> {
+    return subscribe(
+        chainConfig,
+        PriceFeedEventsABI,
+        'PricesUpdated',
+        (args) => ({
+            count: args.count,
+            targetChain: Number(args.targetChain),
+            sequence: args.sequence,
+        }),
+        handler,
+        options
+    );
+}
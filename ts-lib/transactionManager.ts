@@ -0,0 +1,322 @@
+/**
+ * Nonce management and stuck-transaction replacement
+ *
+ * Concurrent sends from the same account race on the nonce the node hands
+ * out, and one transaction stuck at a low fee blocks every later one. The
+ * transaction manager assigns nonces locally, one broadcast at a time, and
+ * replaces a transaction that stays pending with a higher EIP-1559 bid.
+ * Calldata that expires (a signed quote) is rebuilt before replacing.
+ */
+
+import type { Hash, PublicClient, TransactionReceipt, WalletClient } from 'viem';
+import type {
+    ChainConfig,
+    ManagedTransactionResult,
+    PendingTransaction,
+    PreparedTransaction,
+    TransactionManager,
+    TransactionManagerOptions,
+} from '../config/types';
+import { getClients, sleep } from './wormhole';
+import { getSignerAddress } from './signer';
+import { TransactionManagerError } from './errors';
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+function maxOf(...values: bigint[]): bigint {
+    return values.reduce((max, value) => (value > max ? value : max));
+}
+
+/**
+ * Create a transaction manager for the wallet client's account
+ * The account should only send through this manager, or nonces will clash.
+ */
+export function createTransactionManager(
+    publicClient: PublicClient,
+    walletClient: WalletClient,
+    options: TransactionManagerOptions = {}
+): TransactionManager {
+    const replaceAfterMs = options.replaceAfterMs ?? 60000;
+    const feeBumpBps = BigInt(options.feeBumpBps ?? 1250);
+    const maxReplacements = options.maxReplacements ?? 5;
+    const expiryMarginMs = options.expiryMarginMs ?? 30000;
+    const pollIntervalMs = options.pollIntervalMs ?? 3000;
+    const timeoutMs = options.timeoutMs ?? 600000;
+    const account = walletClient.account!;
+
+    let nextNonce: number | undefined;
+    let queue: Promise<unknown> = Promise.resolve();
+    const pending = new Map<number, PendingTransaction>();
+
+    // Run nonce assignment and broadcast one send at a time
+    function exclusive<R>(fn: () => Promise<R>): Promise<R> {
+        const run = queue.then(fn, fn);
+        queue = run.catch(() => undefined);
+        return run;
+    }
+
+    async function withGas<T>(
+        prepare: () => Promise<PreparedTransaction<T>>
+    ): Promise<PreparedTransaction<T>> {
+        const prepared = await prepare();
+        const gas =
+            prepared.gas ??
+            (await publicClient.estimateGas({
+                account,
+                to: prepared.to,
+                data: prepared.data,
+                value: prepared.value,
+            }));
+        return { ...prepared, gas };
+    }
+
+    function broadcast(
+        prepared: PreparedTransaction<unknown>,
+        nonce: number,
+        fees: Fees
+    ): Promise<Hash> {
+        return walletClient.sendTransaction({
+            account,
+            chain: walletClient.chain,
+            to: prepared.to,
+            data: prepared.data,
+            value: prepared.value,
+            gas: prepared.gas,
+            nonce,
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        });
+    }
+
+    /**
+     * Fees for the first broadcast: the current network fees, with
+     * maxFeePerGas lowered to the cap. Throws if the base fee plus the
+     * priority fee is already above the cap.
+     */
+    async function initialFees(nonce: number): Promise<Fees> {
+        const fees = await publicClient.estimateFeesPerGas();
+        const cap = options.maxFeePerGasCap;
+        if (cap === undefined || fees.maxFeePerGas <= cap) return fees;
+
+        const { baseFeePerGas } = await publicClient.getBlock();
+        const networkFee = (baseFeePerGas ?? 0n) + fees.maxPriorityFeePerGas;
+        if (networkFee > cap) {
+            throw new TransactionManagerError(
+                'fee-cap-exceeded',
+                nonce,
+                [],
+                `Network fee of ${networkFee} wei/gas is above the maxFeePerGas cap of ${cap}`
+            );
+        }
+        return { ...fees, maxFeePerGas: cap };
+    }
+
+    /**
+     * Fees for a replacement: the previous bid bumped by `feeBumpBps`, or the
+     * current network fees if higher. Undefined if that exceeds the cap.
+     */
+    async function replacementFees(
+        tx: PendingTransaction
+    ): Promise<Fees | undefined> {
+        const current = await publicClient.estimateFeesPerGas();
+        const bump = (fee: bigint) => {
+            const bumped = (fee * (10000n + feeBumpBps)) / 10000n;
+            return bumped > fee ? bumped : fee + 1n;
+        };
+
+        const maxPriorityFeePerGas = maxOf(
+            bump(tx.maxPriorityFeePerGas),
+            current.maxPriorityFeePerGas
+        );
+        const maxFeePerGas = maxOf(
+            bump(tx.maxFeePerGas),
+            current.maxFeePerGas,
+            maxPriorityFeePerGas
+        );
+
+        if (
+            options.maxFeePerGasCap !== undefined &&
+            maxFeePerGas > options.maxFeePerGasCap
+        ) {
+            return undefined;
+        }
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    /**
+     * Receipt of whichever broadcast hash was mined, if any
+     */
+    async function findReceipt(
+        hashes: Hash[]
+    ): Promise<{ hash: Hash; receipt: TransactionReceipt } | undefined> {
+        for (const hash of hashes) {
+            try {
+                const receipt = await publicClient.getTransactionReceipt({
+                    hash,
+                });
+                return { hash, receipt };
+            } catch {
+                // Not mined (or the RPC failed) - check the next hash
+            }
+        }
+        return undefined;
+    }
+
+    return {
+        address: account.address,
+
+        async sendTransaction<T>(
+            prepare: () => Promise<PreparedTransaction<T>>
+        ): Promise<ManagedTransactionResult<T>> {
+            let prepared = await withGas(prepare);
+
+            const { nonce, hash, fees } = await exclusive(async () => {
+                if (nextNonce === undefined) {
+                    nextNonce = await publicClient.getTransactionCount({
+                        address: account.address,
+                        blockTag: 'pending',
+                    });
+                }
+                const nonce = nextNonce;
+                const fees = await initialFees(nonce);
+                try {
+                    const hash = await broadcast(prepared, nonce, fees);
+                    nextNonce = nonce + 1;
+                    return { nonce, hash, fees };
+                } catch (error) {
+                    // The nonce may have been used elsewhere - read it again
+                    nextNonce = undefined;
+                    throw error;
+                }
+            });
+
+            const tx: PendingTransaction = {
+                nonce,
+                hashes: [hash],
+                maxFeePerGas: fees.maxFeePerGas,
+                maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+                sentAt: Date.now(),
+                replacements: 0,
+            };
+            const preparedByHash = new Map<Hash, PreparedTransaction<T>>([
+                [hash, prepared],
+            ]);
+            const mined = (found: { hash: Hash; receipt: TransactionReceipt }) => ({
+                ...found,
+                nonce,
+                replacements: tx.replacements,
+                prepared: preparedByHash.get(found.hash)!,
+            });
+
+            pending.set(nonce, tx);
+            const startTime = Date.now();
+            let canReplace = true;
+
+            try {
+                while (Date.now() - startTime < timeoutMs) {
+                    const found = await findReceipt(tx.hashes);
+                    if (found) return mined(found);
+
+                    // A transaction we did not send took the nonce
+                    const confirmed = await publicClient
+                        .getTransactionCount({
+                            address: account.address,
+                            blockTag: 'latest',
+                        })
+                        .catch(() => 0);
+                    if (confirmed > nonce) {
+                        const late = await findReceipt(tx.hashes);
+                        if (late) return mined(late);
+                        nextNonce = undefined;
+                        throw new TransactionManagerError(
+                            'nonce-consumed',
+                            nonce,
+                            tx.hashes,
+                            `Nonce ${nonce} was used by another transaction`
+                        );
+                    }
+
+                    if (
+                        canReplace &&
+                        tx.replacements < maxReplacements &&
+                        Date.now() - tx.sentAt >= replaceAfterMs
+                    ) {
+                        try {
+                            const bid = await replacementFees(tx);
+                            if (!bid) {
+                                canReplace = false;
+                            } else {
+                                // Past the expiry margin the calldata (quotes) is rebuilt
+                                if (
+                                    prepared.expiresAt !== undefined &&
+                                    Date.now() + expiryMarginMs >=
+                                        prepared.expiresAt
+                                ) {
+                                    prepared = await withGas(prepare);
+                                }
+                                const replacement = await broadcast(
+                                    prepared,
+                                    nonce,
+                                    bid
+                                );
+                                preparedByHash.set(replacement, prepared);
+                                tx.hashes.push(replacement);
+                                tx.maxFeePerGas = bid.maxFeePerGas;
+                                tx.maxPriorityFeePerGas = bid.maxPriorityFeePerGas;
+                                tx.replacements++;
+                            }
+                        } catch {
+                            // Rebuild or broadcast failed (or the original was
+                            // just mined) - try again after another interval
+                        }
+                        tx.sentAt = Date.now();
+                    }
+
+                    await sleep(pollIntervalMs);
+                }
+
+                throw new TransactionManagerError(
+                    'timeout',
+                    nonce,
+                    tx.hashes,
+                    `Transaction with nonce ${nonce} not mined after ${timeoutMs}ms`
+                );
+            } finally {
+                pending.delete(nonce);
+            }
+        },
+
+        get pending() {
+            return [...pending.values()].sort((a, b) => a.nonce - b.nonce);
+        },
+
+        resync() {
+            nextNonce = undefined;
+        },
+    };
+}
+
+const sharedManagers = new Map<string, Promise<TransactionManager>>();
+
+/**
+ * Shared transaction manager for a chain config's account
+ * Every sendPriceUpdate from the same account goes through the same manager.
+ */
+export async function getTransactionManager(
+    chainConfig: ChainConfig
+): Promise<TransactionManager> {
+    const address = await getSignerAddress(chainConfig);
+    const key = `${chainConfig.network}:${chainConfig.chain}:${address}`;
+
+    let manager = sharedManagers.get(key);
+    if (!manager) {
+        manager = getClients(chainConfig).then(({ publicClient, walletClient }) =>
+            createTransactionManager(publicClient, walletClient, {
+                maxFeePerGasCap: chainConfig.gas?.maxFeePerGas,
+            })
+        );
+        manager.catch(() => sharedManagers.delete(key));
+        sharedManagers.set(key, manager);
+    }
+    return manager;
+}
@@ -0,0 +1,265 @@
+/**
+ * VAA parsing and guardian signature verification
+ *
+ * Layout (version 1), big-endian:
+ * version (1) | guardianSetIndex (4) | signatureCount (1)
+ * | signatures (66 each: guardianIndex (1) | r (32) | s (32) | v (1))
+ * | body: timestamp (4) | nonce (4) | emitterChain (2) | emitterAddress (32)
+ *   | sequence (8) | consistencyLevel (1) | payload
+ *
+ * Guardians sign keccak256(keccak256(body)). The core bridge accepts a VAA
+ * with signatures from 2/3 + 1 of the guardian set, in ascending index order.
+ */
+
+import {
+    bytesToHex,
+    getAddress,
+    hexToBigInt,
+    hexToNumber,
+    isHex,
+    keccak256,
+    pad,
+    recoverAddress,
+    size,
+    slice,
+    type Address,
+    type Hex,
+} from 'viem';
+import type {
+    ChainConfig,
+    GuardianSet,
+    ParsedVaa,
+    PriceVaa,
+    VaaSignature,
+    VaaVerificationOptions,
+} from '../config/types';
+import { CoreBridgeABI } from '../config/abi';
+import { getCoreBridgeAddress, getPublicClient } from './wormhole';
+import { decodePricePayload } from './payload';
+import { VaaError } from './errors';
+
+const HEADER_LENGTH = 6;
+const SIGNATURE_LENGTH = 66;
+const BODY_FIXED_LENGTH = 51;
+
+/**
+ * Encoded VAA as hex, from hex, base64 (as returned by Wormholescan) or bytes
+ */
+export function vaaToHex(vaa: string | Uint8Array): Hex {
+    if (typeof vaa !== 'string') return bytesToHex(vaa);
+    if (isHex(vaa)) return vaa;
+    try {
+        return bytesToHex(Uint8Array.from(atob(vaa), (c) => c.charCodeAt(0)));
+    } catch (error) {
+        throw new VaaError('malformed', 'VAA is neither hex nor base64', error);
+    }
+}
+
+/**
+ * Parse a VAA (hex, base64 or bytes) into its header, signatures and body
+ * Does not check the signatures - use verifyVaa for that
+ */
+export function parseVaa(vaa: string | Uint8Array): ParsedVaa {
+    const bytes = vaaToHex(vaa);
+    if (size(bytes) < HEADER_LENGTH) {
+        throw new VaaError('malformed', `VAA is only ${size(bytes)} bytes`);
+    }
+
+    const version = hexToNumber(slice(bytes, 0, 1));
+    if (version !== 1) {
+        throw new VaaError('malformed', `Unsupported VAA version ${version}`);
+    }
+
+    const signatureCount = hexToNumber(slice(bytes, 5, 6));
+    const bodyStart = HEADER_LENGTH + signatureCount * SIGNATURE_LENGTH;
+    if (size(bytes) < bodyStart + BODY_FIXED_LENGTH) {
+        throw new VaaError(
+            'malformed',
+            `VAA with ${signatureCount} signature(s) must be at least ${
+                bodyStart + BODY_FIXED_LENGTH
+            } bytes, got ${size(bytes)}`
+        );
+    }
+
+    const signatures: VaaSignature[] = [];
+    for (let i = 0; i < signatureCount; i++) {
+        const offset = HEADER_LENGTH + i * SIGNATURE_LENGTH;
+        signatures.push({
+            guardianIndex: hexToNumber(slice(bytes, offset, offset + 1)),
+            signature: slice(bytes, offset + 1, offset + SIGNATURE_LENGTH),
+        });
+    }
+
+    const body = slice(bytes, bodyStart);
+    return {
+        version,
+        guardianSetIndex: hexToNumber(slice(bytes, 1, 5)),
+        signatures,
+        timestamp: new Date(hexToNumber(slice(body, 0, 4)) * 1000),
+        nonce: hexToNumber(slice(body, 4, 8)),
+        emitterChain: hexToNumber(slice(body, 8, 10)),
+        emitterAddress: slice(body, 10, 42),
+        sequence: hexToBigInt(slice(body, 42, 50)),
+        consistencyLevel: hexToNumber(slice(body, 50, 51)),
+        payload: size(body) > BODY_FIXED_LENGTH ? slice(body, 51) : '0x',
+        body,
+        hash: keccak256(keccak256(body)),
+    };
+}
+
+/**
+ * Parse a VAA sent by PriceFeedSender and decode its price payload
+ * Throws PricePayloadError if the payload is not a price update
+ */
+export function parsePriceVaa(vaa: string | Uint8Array): PriceVaa {
+    const parsed = parseVaa(vaa);
+    return { ...parsed, prices: decodePricePayload(parsed.payload) };
+}
+
+/**
+ * Recover the signer of each guardian signature
+ */
+export async function recoverVaaSigners(
+    vaa: ParsedVaa
+): Promise<Array<{ guardianIndex: number; signer: Address }>> {
+    return Promise.all(
+        vaa.signatures.map(async ({ guardianIndex, signature }) => ({
+            guardianIndex,
+            signer: await recoverAddress({
+                hash: vaa.hash,
+                signature: {
+                    r: slice(signature, 0, 32),
+                    s: slice(signature, 32, 64),
+                    yParity: hexToNumber(slice(signature, 64, 65)),
+                },
+            }),
+        }))
+    );
+}
+
+/**
+ * Check a VAA the way the core bridge would before a destination executes it
+ *
+ * Verifies that it is signed by a quorum of the guardian set, with each
+ * signature from the guardian at its index, and optionally that it was
+ * emitted by the expected chain and contract.
+ */
+export async function verifyVaa(
+    vaa: string | Uint8Array | ParsedVaa,
+    options: VaaVerificationOptions
+): Promise<ParsedVaa> {
+    const parsed =
+        typeof vaa === 'string' || vaa instanceof Uint8Array
+            ? parseVaa(vaa)
+            : vaa;
+    const { guardianSet } = options;
+
+    if (parsed.guardianSetIndex !== guardianSet.index) {
+        throw new VaaError(
+            'guardian-set-mismatch',
+            `VAA is signed by guardian set ${parsed.guardianSetIndex}, not ${guardianSet.index}`
+        );
+    }
+    const now = options.now ?? new Date();
+    if (
+        guardianSet.expirationTime !== 0 &&
+        guardianSet.expirationTime * 1000 < now.getTime()
+    ) {
+        throw new VaaError(
+            'guardian-set-expired',
+            `Guardian set ${guardianSet.index} expired at ${new Date(
+                guardianSet.expirationTime * 1000
+            ).toISOString()}`
+        );
+    }
+
+    let signers: Array<{ guardianIndex: number; signer: Address }>;
+    try {
+        signers = await recoverVaaSigners(parsed);
+    } catch (error) {
+        throw new VaaError(
+            'bad-signature',
+            'Could not recover VAA signers',
+            error
+        );
+    }
+
+    let previousIndex = -1;
+    for (const { guardianIndex, signer } of signers) {
+        if (guardianIndex <= previousIndex) {
+            throw new VaaError(
+                'bad-signature',
+                `Guardian indexes must be ascending, got ${guardianIndex} after ${previousIndex}`
+            );
+        }
+        previousIndex = guardianIndex;
+
+        const key = guardianSet.keys[guardianIndex];
+        if (!key || getAddress(key) !== signer) {
+            throw new VaaError(
+                'bad-signature',
+                `Signature ${guardianIndex} was made by ${signer}, not guardian ${key ?? '(none)'}`
+            );
+        }
+    }
+
+    const quorum = Math.floor((guardianSet.keys.length * 2) / 3) + 1;
+    if (signers.length < quorum) {
+        throw new VaaError(
+            'no-quorum',
+            `VAA has ${signers.length} signature(s), guardian set ${guardianSet.index} needs ${quorum}`
+        );
+    }
+
+    if (
+        options.emitterChain !== undefined &&
+        parsed.emitterChain !== options.emitterChain
+    ) {
+        throw new VaaError(
+            'emitter-mismatch',
+            `VAA was emitted on chain ${parsed.emitterChain}, not ${options.emitterChain}`
+        );
+    }
+    if (
+        options.emitterAddress !== undefined &&
+        parsed.emitterAddress.toLowerCase() !==
+            pad(options.emitterAddress).toLowerCase()
+    ) {
+        throw new VaaError(
+            'emitter-mismatch',
+            `VAA was emitted by ${parsed.emitterAddress}, not ${options.emitterAddress}`
+        );
+    }
+
+    return parsed;
+}
+
+/**
+ * Read a guardian set from the chain's core bridge (default: the current set)
+ */
+export async function getGuardianSet(
+    chainConfig: ChainConfig,
+    index?: number
+): Promise<GuardianSet> {
+    const publicClient = await getPublicClient(chainConfig);
+    const coreBridge = await getCoreBridgeAddress(chainConfig);
+    const setIndex =
+        index ??
+        (await publicClient.readContract({
+            address: coreBridge,
+            abi: CoreBridgeABI,
+            functionName: 'getCurrentGuardianSetIndex',
+        }));
+    const guardianSet = await publicClient.readContract({
+        address: coreBridge,
+        abi: CoreBridgeABI,
+        functionName: 'getGuardianSet',
+        args: [setIndex],
+    });
+
+    return {
+        index: setIndex,
+        keys: [...guardianSet.keys],
+        expirationTime: guardianSet.expirationTime,
+    };
+}
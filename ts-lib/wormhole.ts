@@ -5,93 +5,333 @@
 import {
     createPublicClient,
     createWalletClient,
+    defineChain,
+    fallback,
     http,
+    webSocket,
     type PublicClient,
+    type Transport,
     type WalletClient,
     type Chain as ViemChain,
     type Address,
     type Log,
 } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { sepolia, baseSepolia, polygonAmoy } from 'viem/chains';
+import * as viemChains from 'viem/chains';
 import { Wormhole } from '@wormhole-foundation/sdk';
 import { EvmPlatform } from '@wormhole-foundation/sdk-evm';
-import type { ChainConfig } from '../config/types';
+import {
+    chainToPlatform,
+    nativeChainIds,
+    type Network,
+} from '@wormhole-foundation/sdk-base';
+import type {
+    ChainConfig,
+    ClientRegistry,
+    ClientRegistryOptions,
+} from '../config/types';
+import { getSignerAccount } from './signer';
 
-/**
- * Map chain names to viem chain configs
- */
-const chainMap: Record<string, ViemChain> = {
-    Sepolia: sepolia,
-    BaseSepolia: baseSepolia,
-    PolygonSepolia: polygonAmoy,
-};
+const wormholeContexts = new Map<Network, Wormhole<Network>>();
 
 /**
  * Get Wormhole SDK context with CoreBridge addresses
+ * The Wormhole instance is created once per network.
  */
 export async function getWormholeContext(chainConfig: ChainConfig) {
-    const wh = new Wormhole(chainConfig.network, [EvmPlatform]);
+    let wh = wormholeContexts.get(chainConfig.network);
+    if (!wh) {
+        wh = new Wormhole(chainConfig.network, [EvmPlatform]);
+        wormholeContexts.set(chainConfig.network, wh);
+    }
     const chainContext = wh.getChain(chainConfig.chain);
 
     return { wh, chainContext };
 }
 
+/** viem's chain catalogue by EVM chain ID, built on first use */
+let viemChainsById: Map<number, ViemChain> | undefined;
+
+const resolvedChains = new Map<string, ViemChain>();
+
+/**
+ * EVM chain ID of a chain config
+ * The Wormhole SDK's native chain ID for the network, else `evmChainId`.
+ */
+export function getEvmChainId(chainConfig: ChainConfig): number {
+    const { network, chain } = chainConfig;
+    if (chainToPlatform(chain) !== 'Evm') {
+        throw new Error(`${chain} is not an EVM chain`);
+    }
+
+    const sdkChainId = nativeChainIds.networkChainToNativeChainId.has(
+        network,
+        chain
+    )
+        ? Number(nativeChainIds.networkChainToNativeChainId.get(network, chain))
+        : undefined;
+    if (
+        sdkChainId !== undefined &&
+        chainConfig.evmChainId !== undefined &&
+        sdkChainId !== chainConfig.evmChainId
+    ) {
+        throw new Error(
+            `${network} ${chain} has EVM chain ID ${sdkChainId}, not ${chainConfig.evmChainId}`
+        );
+    }
+
+    const evmChainId = sdkChainId ?? chainConfig.evmChainId;
+    if (evmChainId === undefined) {
+        throw new Error(
+            `Unsupported chain: no EVM chain ID known for ${network} ${chain} - set evmChainId`
+        );
+    }
+    return evmChainId;
+}
+
 /**
  * Get viem chain config from ChainConfig
+ * Resolved by EVM chain ID from viem's chain catalogue; chains viem does not
+ * know are defined from the config's name, RPC URLs and native currency.
  */
 export function getViemChain(chainConfig: ChainConfig): ViemChain {
-    const chain = chainMap[chainConfig.chain];
+    const evmChainId = getEvmChainId(chainConfig);
+    const key = `${chainConfig.network}:${chainConfig.chain}:${evmChainId}`;
+
+    let chain = resolvedChains.get(key);
     if (!chain) {
-        throw new Error(`Unsupported chain: ${chainConfig.chain}`);
+        if (!viemChainsById) {
+            viemChainsById = new Map();
+            // Keep the first definition where viem has several for one ID
+            for (const catalogued of Object.values(viemChains)) {
+                if (!viemChainsById.has(catalogued.id)) {
+                    viemChainsById.set(catalogued.id, catalogued);
+                }
+            }
+        }
+        chain =
+            viemChainsById.get(evmChainId) ??
+            defineChain({
+                id: evmChainId,
+                name: chainConfig.name ?? chainConfig.chain,
+                nativeCurrency: chainConfig.nativeCurrency ?? {
+                    name: 'Ether',
+                    symbol: 'ETH',
+                    decimals: 18,
+                },
+                rpcUrls: {
+                    default: { http: getConfiguredRpcUrls(chainConfig) },
+                },
+                testnet: chainConfig.network !== 'Mainnet',
+            });
+        resolvedChains.set(key, chain);
     }
     return chain;
 }
 
 /**
- * Get public client for reading from chain
+ * RPC URLs set in the chain config (rpcUrls, or a comma-separated rpcUrl)
  */
-export async function getPublicClient(
-    chainConfig: ChainConfig
-): Promise<PublicClient> {
-    let rpcUrl = chainConfig.rpcUrl;
+function getConfiguredRpcUrls(chainConfig: ChainConfig): string[] {
+    const urls = chainConfig.rpcUrls ?? chainConfig.rpcUrl?.split(',') ?? [];
+    return urls.map((url) => url.trim()).filter(Boolean);
+}
 
-    if (!rpcUrl) {
-        const { chainContext } = await getWormholeContext(chainConfig);
-        const rpcConfig = chainContext.config.rpc;
-        rpcUrl = Array.isArray(rpcConfig) ? rpcConfig[0] : rpcConfig;
-    }
+/**
+ * Space out requests so that at most `requestsPerSecond` start each second
+ */
+function rateLimit(transport: Transport, requestsPerSecond: number): Transport {
+    const spacingMs = 1000 / requestsPerSecond;
+    let nextSlot = 0;
 
-    const chain = getViemChain(chainConfig);
+    return (params) => {
+        const { request, ...rest } = transport(params);
+        const limited = (async (args: Parameters<typeof request>[0]) => {
+            const now = Date.now();
+            const slot = Math.max(now, nextSlot);
+            nextSlot = slot + spacingMs;
+            if (slot > now) await sleep(slot - now);
+            return request(args);
+        }) as typeof request;
 
-    return createPublicClient({
-        chain,
-        transport: http(rpcUrl),
-    });
+        return { ...rest, request: limited };
+    };
 }
 
 /**
- * Get wallet client for signing transactions
+ * Create a client registry
+ *
+ * Clients are created once per chain (and account) and reused. Each RPC URL
+ * gets one rate-limited transport shared by every client that uses it; a
+ * chain with several URLs uses a fallback transport that moves on to the
+ * next URL when one fails. The SDK default RPC is only looked up for chains
+ * without configured URLs.
+ *
+ * With `rank`, the fallback also orders the URLs by latency and stability.
+ * Ranking pings each URL in the background for as long as the process runs
+ * (viem cannot stop it), so only enable it in long-running processes.
  */
-export async function getWalletClient(
-    chainConfig: ChainConfig
-): Promise<WalletClient> {
-    let rpcUrl = chainConfig.rpcUrl;
+export function createClientRegistry(
+    options: ClientRegistryOptions = {}
+): ClientRegistry {
+    const timeout = options.timeoutMs ?? 10000;
+    const urlTransports = new Map<string, Transport>();
+    const publicClients = new Map<string, Promise<PublicClient>>();
+    const walletClients = new Map<string, Promise<WalletClient>>();
+    const webSocketClients = new Map<string, Promise<PublicClient>>();
+
+    function getUrlTransport(url: string): Transport {
+        let transport = urlTransports.get(url);
+        if (!transport) {
+            // Retries are left to the fallback transport
+            transport = http(url, { retryCount: 0, timeout });
+            if (options.requestsPerSecond) {
+                transport = rateLimit(transport, options.requestsPerSecond);
+            }
+            urlTransports.set(url, transport);
+        }
+        return transport;
+    }
+
+    async function getRpcUrls(chainConfig: ChainConfig): Promise<string[]> {
+        const configured = getConfiguredRpcUrls(chainConfig);
+        if (configured.length > 0) return configured;
 
-    if (!rpcUrl) {
         const { chainContext } = await getWormholeContext(chainConfig);
         const rpcConfig = chainContext.config.rpc;
-        rpcUrl = Array.isArray(rpcConfig) ? rpcConfig[0] : rpcConfig;
+        return Array.isArray(rpcConfig) ? rpcConfig : [rpcConfig];
     }
 
-    const chain = getViemChain(chainConfig);
-    const account = privateKeyToAccount(chainConfig.privateKey);
+    async function getTransport(chainConfig: ChainConfig): Promise<Transport> {
+        const urls = await getRpcUrls(chainConfig);
+        const rank = options.rank === true && urls.length > 1;
 
-    return createWalletClient({
-        account,
-        chain,
-        transport: http(rpcUrl),
-    });
+        return fallback(urls.map(getUrlTransport), {
+            retryCount: options.retryCount ?? 3,
+            rank: rank && {
+                interval: options.rankIntervalMs ?? 10000,
+                // net_listening (the default) is not served by every provider
+                ping: ({ transport }) =>
+                    transport.request({ method: 'eth_blockNumber' }),
+            },
+        });
+    }
+
+    // Cache the client promise; a failed lookup is not cached
+    function memoize<C>(
+        cache: Map<string, Promise<C>>,
+        key: string,
+        create: () => Promise<C>
+    ): Promise<C> {
+        let client = cache.get(key);
+        if (!client) {
+            client = create();
+            client.catch(() => cache.delete(key));
+            cache.set(key, client);
+        }
+        return client;
+    }
+
+    function chainKey(chainConfig: ChainConfig): string {
+        return `${chainConfig.network}:${chainConfig.chain}:${getConfiguredRpcUrls(chainConfig).join(',')}`;
+    }
+
+    return {
+        getRpcUrls,
+
+        getPublicClient(chainConfig) {
+            return memoize(publicClients, chainKey(chainConfig), async () =>
+                createPublicClient({
+                    chain: getViemChain(chainConfig),
+                    transport: await getTransport(chainConfig),
+                })
+            );
+        },
+
+        async getWalletClient(chainConfig) {
+            const account = await getSignerAccount(chainConfig);
+            return memoize(
+                walletClients,
+                `${chainKey(chainConfig)}:${account.address}`,
+                async () =>
+                    createWalletClient({
+                        account,
+                        chain: getViemChain(chainConfig),
+                        transport: await getTransport(chainConfig),
+                    })
+            );
+        },
+
+        async getWebSocketClient(chainConfig) {
+            const { wsUrl } = chainConfig;
+            if (!wsUrl) return undefined;
+            return memoize(webSocketClients, wsUrl, async () =>
+                createPublicClient({
+                    chain: getViemChain(chainConfig),
+                    transport: webSocket(wsUrl, { timeout }),
+                })
+            );
+        },
+
+        clear() {
+            urlTransports.clear();
+            publicClients.clear();
+            walletClients.clear();
+            webSocketClients.clear();
+        },
+
+        async dispose() {
+            const sockets = [...webSocketClients.values()];
+            this.clear();
+            await Promise.all(
+                sockets.map(async (client) => {
+                    try {
+                        const rpcClient = await (
+                            await client
+                        ).transport.getRpcClient();
+                        rpcClient.close();
+                    } catch {
+                        // A socket that never connected has nothing to close
+                    }
+                })
+            );
+        },
+    };
+}
+
+let defaultClientRegistry: ClientRegistry | undefined;
+
+/**
+ * Registry used by getPublicClient and getWalletClient
+ */
+export function getClientRegistry(): ClientRegistry {
+    defaultClientRegistry ??= createClientRegistry();
+    return defaultClientRegistry;
+}
+
+/**
+ * Replace the registry used by getPublicClient and getWalletClient
+ * e.g. to rate limit public RPCs: setClientRegistry(createClientRegistry({ requestsPerSecond: 5 }))
+ */
+export function setClientRegistry(registry: ClientRegistry): void {
+    defaultClientRegistry = registry;
+}
+
+/**
+ * Get public client for reading from chain
+ */
+export function getPublicClient(
+    chainConfig: ChainConfig
+): Promise<PublicClient> {
+    return getClientRegistry().getPublicClient(chainConfig);
+}
+
+/**
+ * Get wallet client for signing transactions
+ */
+export function getWalletClient(
+    chainConfig: ChainConfig
+): Promise<WalletClient> {
+    return getClientRegistry().getWalletClient(chainConfig);
 }
 
 /**
@@ -129,9 +369,22 @@ export function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Next polling interval: halved after new data, doubled while idle
+ */
+export function nextPollInterval(
+    current: number,
+    hadUpdate: boolean,
+    bounds: { minMs: number; maxMs: number }
+): number {
+    const next = hadUpdate ? current / 2 : current * 2;
+    return Math.min(bounds.maxMs, Math.max(bounds.minMs, next));
+}
+
 /**
  * Poll for event with timeout (no logging)
- * Returns the event if found, null otherwise
+ * Logs are only requested when a new block has arrived; the interval adapts
+ * to the block rate. Returns the event if found, null otherwise
  */
 export async function pollForEvent(
     publicClient: PublicClient,
@@ -141,20 +394,30 @@ export async function pollForEvent(
     timeoutMs: number = 60000
 ): Promise<Log | null> {
     const startTime = Date.now();
+    const bounds = { minMs: 1000, maxMs: 8000 };
+    let interval = bounds.minMs;
+    let checkedTo = fromBlock - 1n;
 
     while (Date.now() - startTime < timeoutMs) {
-        const logs = await publicClient.getLogs({
-            address,
-            event,
-            fromBlock,
-            toBlock: 'latest',
-        });
+        const latest = await publicClient.getBlockNumber({ cacheTime: 0 });
+        const hadUpdate = latest > checkedTo;
 
-        if (logs.length > 0) {
-            return logs[0];
+        if (hadUpdate) {
+            const logs = await publicClient.getLogs({
+                address,
+                event,
+                fromBlock: checkedTo + 1n,
+                toBlock: latest,
+            });
+
+            if (logs.length > 0) {
+                return logs[0];
+            }
+            checkedTo = latest;
         }
 
-        await sleep(2000);
+        interval = nextPollInterval(interval, hadUpdate, bounds);
+        await sleep(interval);
     }
 
     return null;
@@ -181,6 +444,9 @@ export async function pollForVAA(
         .replace('0x', '')
         .padStart(64, '0');
     const url = `${baseUrl}/api/v1/vaas/${emitterChain}/${paddedEmitter}/${sequence}`;
+    // Guardians take a few seconds at least; back off while the VAA is missing
+    const bounds = { minMs: 1000, maxMs: 10000 };
+    let interval = bounds.minMs;
 
     while (Date.now() - startTime < timeoutMs) {
         try {
@@ -199,7 +465,8 @@ export async function pollForVAA(
             // Ignore and continue polling
         }
 
-        await sleep(3000);
+        interval = nextPollInterval(interval, false, bounds);
+        await sleep(interval);
     }
 
     return null;